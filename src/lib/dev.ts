@@ -0,0 +1 @@
+export { default as BayInspector } from './BayInspector.svelte';
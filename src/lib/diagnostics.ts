@@ -0,0 +1,28 @@
+// Development-only checks. Every caller guards with `DEV` from esm-env, so bundlers drop
+// this module from production builds.
+
+/** How long a Pod may wait for its Portal, or a Portal for its first Pod, before a warning. */
+export const GRACE_PERIOD = 2000;
+
+const SVELTE_FILE = /(?:[a-z]+:\/\/[^/\s]+)?(\/[^\s()?#]+\.svelte)/i;
+
+/**
+ * The `.svelte` file that rendered the calling component, read from the current stack.
+ * `self` is the caller's own `import.meta.url`, which is skipped.
+ */
+export const findSource = (self: string): string | undefined => {
+	const own = new URL(self).pathname;
+	const limit = Error.stackTraceLimit;
+	Error.stackTraceLimit = 50;
+	const stack = new Error().stack ?? '';
+	Error.stackTraceLimit = limit;
+
+	for (const line of stack.split('\n')) {
+		const file = SVELTE_FILE.exec(line)?.[1];
+		if (file && file !== own) return file;
+	}
+};
+
+export const warn = (message: string) => {
+	console.warn(`[svelte-bay] ${message}`);
+};
@@ -0,0 +1,55 @@
+/** Elements whose styles are copied into other documents. */
+const STYLE_SELECTOR = 'style, link[rel="stylesheet"]';
+
+/**
+ * Renders into a window, a document or an element, which can belong to another document than
+ * the app, e.g. a popup from `window.open` or an iframe's `contentDocument`.
+ */
+export type DocumentTarget = Window | Document | Element;
+
+/** The element to render into for `target`: the body for windows and documents. */
+export const resolveTarget = (target: DocumentTarget | null | undefined): Element | null => {
+	if (!target) return null;
+	// Checked by shape, as `instanceof` fails for objects from another window
+	if ('document' in target) return target.document.body;
+	if ('body' in target) return target.body;
+	return target;
+};
+
+/**
+ * Copies the stylesheets in the head of `from` into the head of `to` and keeps them in sync,
+ * since development servers and lazily loaded components add and change styles at runtime.
+ * Returns a function that stops syncing and removes the copies.
+ */
+export const copyStyles = (from: Document, to: Document) => {
+	const copies = new Map<Element, Element>();
+
+	const sync = () => {
+		const sources = new Set(from.head.querySelectorAll(STYLE_SELECTOR));
+
+		for (const [source, copy] of copies) {
+			if (sources.has(source)) continue;
+			copy.remove();
+			copies.delete(source);
+		}
+
+		for (const source of sources) {
+			const copy = copies.get(source);
+			if (!copy) {
+				copies.set(source, to.head.appendChild(to.importNode(source, true)));
+			} else if (source.tagName === 'STYLE' && copy.textContent !== source.textContent) {
+				copy.textContent = source.textContent;
+			}
+		}
+	};
+
+	sync();
+	const observer = new MutationObserver(sync);
+	observer.observe(from.head, { childList: true, subtree: true, characterData: true });
+
+	return () => {
+		observer.disconnect();
+		for (const copy of copies.values()) copy.remove();
+		copies.clear();
+	};
+};
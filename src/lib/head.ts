@@ -0,0 +1,13 @@
+import type { HTMLMetaAttributes } from 'svelte/elements';
+import type { PortalName } from './types.js';
+
+/** The portal name HeadPods send their tags to. */
+export const HEAD_PORTAL = 'svelte-bay:head' as PortalName;
+
+/** Meta tags with the same key replace each other: by `name`, else `property`, else `http-equiv`. */
+export const metaKey = (meta: HTMLMetaAttributes) => {
+	if (meta.name) return `meta:name:${meta.name}`;
+	if (meta.property) return `meta:property:${meta.property}`;
+	if (meta['http-equiv']) return `meta:http-equiv:${meta['http-equiv']}`;
+	return undefined;
+};
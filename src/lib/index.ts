@@ -1,4 +1,39 @@
 export { default as Portal } from './Portal.svelte';
 export { default as Pod } from './Pod.svelte';
-export { createBay, getBayState, type BayState } from './portal-state.svelte.js';
-export type { PortalRegistry, PortalName } from './types.js';
\ No newline at end of file
+export { default as DocumentPortal } from './DocumentPortal.svelte';
+export { default as HeadPortal } from './HeadPortal.svelte';
+export { default as HeadPod } from './HeadPod.svelte';
+export { default as ToastPortal } from './ToastPortal.svelte';
+export { default as ModalPortal } from './ModalPortal.svelte';
+export { default as ModalPod } from './ModalPod.svelte';
+export {
+	createBay,
+	getBayState,
+	type BayState,
+	type BayContent,
+	type BayOptions,
+	type PodEntry,
+	type RegisterOptions
+} from './portal-state.svelte.js';
+export { usePortal, type PortalStatus } from './use-portal.svelte.js';
+export { copyStyles, type DocumentTarget } from './documents.js';
+export {
+	createToaster,
+	getToaster,
+	TOAST_PORTAL,
+	type Toast,
+	type ToastOptions,
+	type ToastType,
+	type Toaster,
+	type ToasterOptions
+} from './toaster.svelte.js';
+export type {
+	PortalRegistry,
+	PortalName,
+	PortalMode,
+	PortalDuplicates,
+	PortalContext,
+	PortalTransition,
+	PortalAnimation,
+	BayScope
+} from './types.js';
\ No newline at end of file
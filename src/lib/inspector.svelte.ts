@@ -0,0 +1,49 @@
+import { untrack } from 'svelte';
+
+// Shared between BayInspector and Portal. Portals only add markers around their entries
+// while an inspector is mounted, and only in development builds.
+
+// Must match the marker attributes Portal renders
+const ENTRY_ATTRIBUTE = 'data-bay-entry';
+const END_ATTRIBUTE = 'data-bay-end';
+
+let inspectors = $state(0);
+
+export const isInspecting = () => inspectors > 0;
+
+/** Marks an inspector as mounted. Returns a function that unmarks it. */
+export const startInspecting = () => {
+	// Called from effects, which must not depend on the counter they change
+	untrack(() => (inspectors += 1));
+
+	let active = true;
+	return () => {
+		if (!active) return;
+		active = false;
+		untrack(() => (inspectors -= 1));
+	};
+};
+
+/** Screen rectangles of everything rendered for the entry with `id`, in every Portal showing it. */
+export const entryRects = (id: number) => {
+	const rects: DOMRect[] = [];
+
+	for (const marker of document.querySelectorAll(`template[${ENTRY_ATTRIBUTE}="${id}"]`)) {
+		// An entry runs from its marker to the next entry's marker, the end marker or its parent's end
+		let last: Node = marker;
+		while (
+			last.nextSibling &&
+			!(last.nextSibling instanceof HTMLTemplateElement && (last.nextSibling.hasAttribute(ENTRY_ATTRIBUTE) || last.nextSibling.hasAttribute(END_ATTRIBUTE)))
+		) {
+			last = last.nextSibling;
+		}
+		if (last === marker) continue;
+
+		const range = document.createRange();
+		range.setStartAfter(marker);
+		range.setEndAfter(last);
+		rects.push(range.getBoundingClientRect());
+	}
+
+	return rects;
+};
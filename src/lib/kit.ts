@@ -0,0 +1,8 @@
+export { default as NavigationPod } from './NavigationPod.svelte';
+export { default as NavigationPortal } from './NavigationPortal.svelte';
+export {
+	createKitBay,
+	getNavigationState,
+	type NavigationState,
+	type PodLifetime
+} from './navigation.svelte.js';
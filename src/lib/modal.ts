@@ -0,0 +1,41 @@
+import type { PortalName } from './types.js';
+
+/** The portal name ModalPods send their dialogs to. */
+export const MODAL_PORTAL = 'svelte-bay:modals' as PortalName;
+
+const FOCUSABLE = [
+	'a[href]',
+	'area[href]',
+	'button:not([disabled])',
+	'input:not([disabled]):not([type="hidden"])',
+	'select:not([disabled])',
+	'textarea:not([disabled])',
+	'iframe',
+	'[contenteditable]:not([contenteditable="false"])',
+	'[tabindex]:not([tabindex="-1"])'
+].join(', ');
+
+/** Elements inside `root` that Tab can reach, in document order. */
+export const focusableIn = (root: HTMLElement) =>
+	[...root.querySelectorAll<HTMLElement>(FOCUSABLE)].filter((element) => !element.closest('[inert]'));
+
+/**
+ * Makes everything outside `element` inert by marking the siblings of it and of each of its
+ * ancestors. Returns a function that undoes it, leaving elements that were inert already alone.
+ */
+export const inertOutside = (element: HTMLElement) => {
+	const marked: Element[] = [];
+	for (let node: HTMLElement | null = element; node && node !== document.body; node = node.parentElement) {
+		for (const sibling of node.parentElement?.children ?? []) {
+			if (sibling !== node && !sibling.hasAttribute('inert')) {
+				sibling.setAttribute('inert', '');
+				marked.push(sibling);
+			}
+		}
+	}
+	return () => {
+		for (const sibling of marked) {
+			sibling.removeAttribute('inert');
+		}
+	};
+};
@@ -0,0 +1,109 @@
+import { afterNavigate, beforeNavigate } from '$app/navigation';
+import { createBay, type BayContent, type BayOptions, type BayState, type PodEntry } from './portal-state.svelte.js';
+
+/**
+ * How long a NavigationPod's content outlives the Pod:
+ * - `unmount`: removed when the Pod unmounts, like a regular Pod
+ * - `navigation`: kept until the next navigation has completed
+ * - `persist`: kept across navigations until another Pod for the same name and key replaces it
+ */
+export type PodLifetime = 'unmount' | 'navigation' | 'persist';
+
+export interface NavigationState {
+	/** Whether a navigation is in progress. */
+	readonly navigating: boolean;
+	/**
+	 * Calls `release` once the next navigation has completed. Called during a navigation, such as
+	 * by a page's Pod as the page unmounts, that is the navigation after the current one.
+	 */
+	untilNavigation(release: () => void): void;
+	/**
+	 * Calls `release` once an entry with the same key as `entry`, or without one if it has none,
+	 * is registered to `name` after this call.
+	 */
+	untilReplaced(bay: BayState, name: string, entry: Pick<PodEntry, 'key'>, release: () => void): void;
+}
+
+const navigations = new WeakMap<BayState, NavigationState>();
+
+const createNavigationState = (): NavigationState => {
+	let navigating = $state(false);
+	// Pods unmount in effect teardowns, which read state as it was before the update, so they
+	// would miss a navigation that started in the same update
+	let inProgress = false;
+	const setNavigating = (value: boolean) => {
+		navigating = value;
+		inProgress = value;
+	};
+	let afterNext: (() => void)[] = [];
+	// Queued during a navigation, for the one after it
+	let afterFollowing: (() => void)[] = [];
+
+	beforeNavigate((navigation) => {
+		// Leaving the app tears everything down anyway
+		if (navigation.willUnload) return;
+		setNavigating(true);
+		// Cancelled and failed navigations never reach afterNavigate
+		navigation.complete.catch(() => {
+			setNavigating(false);
+			afterNext = [...afterNext, ...afterFollowing];
+			afterFollowing = [];
+		});
+	});
+
+	afterNavigate(() => {
+		setNavigating(false);
+		const released = afterNext;
+		afterNext = afterFollowing;
+		afterFollowing = [];
+		for (const release of released) release();
+	});
+
+	return {
+		get navigating() {
+			return navigating;
+		},
+		untilNavigation(release) {
+			if (inProgress) {
+				afterFollowing.push(release);
+			} else {
+				afterNext.push(release);
+			}
+		},
+		untilReplaced(bay, name, { key }, release) {
+			const existing = new Set((bay.content[name] ?? []).map((entry) => entry.id));
+			let unsubscribe: (() => void) | undefined;
+			let replaced = false;
+
+			const check = (content: BayContent) => {
+				if (replaced || !(content[name] ?? []).some((entry) => !existing.has(entry.id) && entry.key === key)) {
+					return;
+				}
+				replaced = true;
+				unsubscribe?.();
+				release();
+			};
+
+			unsubscribe = bay.subscribe(check);
+			if (replaced) unsubscribe();
+		}
+	};
+};
+
+/**
+ * `createBay()` for SvelteKit apps: also follows navigations, which NavigationPod and
+ * NavigationPortal need. Call it in your root layout instead of `createBay()`.
+ */
+export const createKitBay = (options?: BayOptions) => {
+	const bay = createBay(options);
+	navigations.set(bay, createNavigationState());
+	return bay;
+};
+
+export const getNavigationState = (bay: BayState) => {
+	for (let candidate: BayState | undefined = bay; candidate; candidate = candidate.parent) {
+		const state = navigations.get(candidate);
+		if (state) return state;
+	}
+	throw new Error('Navigation state not found. Make sure to call createKitBay() in your root layout.');
+};
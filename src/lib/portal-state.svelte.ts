@@ -1,20 +1,460 @@
-import { setContext, getContext, type Snippet } from 'svelte';
+import { setContext, getContext, onDestroy, untrack, type Snippet } from 'svelte';
+import { SvelteMap } from 'svelte/reactivity';
+import { BROWSER, DEV } from 'esm-env';
+import { warn } from './diagnostics.js';
+import type { BayScope, PortalContext, PortalDuplicates, PortalMode, PortalName } from './types.js';
 
 const PORTAL_KEY = Symbol('SVELTEBAYPORTAL');
 
+export interface PodEntry {
+	/** Unique per Pod instance, assigned in the order Pods are created. Breaks ties in `order`. */
+	id: number;
+	/** Called with the rendering Portal's `context`. */
+	snippet: Snippet<[unknown]>;
+	order: number;
+	/** The file that declared the Pod. Development builds only. */
+	source?: string;
+	/** Only the newest entry with a key is rendered; see `RegisterOptions.key`. */
+	key?: string;
+}
+
+export interface RegisterOptions {
+	/** Position within the Portal; lower values render first. Defaults to `0`. */
+	order?: number;
+	/** Reuse an id from `createPodId()` to keep the tie-break position across re-registrations. */
+	id?: number;
+	/** Where the content comes from, shown in development warnings. */
+	source?: string;
+	/**
+	 * Replace the entry with the same key under this name instead of adding to it. The entry
+	 * with the highest id wins; the one it replaced comes back when it is removed.
+	 */
+	key?: string;
+}
+
+export type BayContent = Record<string, PodEntry[]>;
+
+export interface BayOptions {
+	/** Fall through to the enclosing bay for names this bay has no Portal for. */
+	inherit?: boolean;
+	/** What Portals sharing a name do. Defaults to the parent bay's policy, else `mirror`. */
+	duplicates?: PortalDuplicates;
+	/**
+	 * Share the bay with every root that calls `createBay` with the same id, such as islands
+	 * mounted separately. The first call creates it and the others join it, ignoring their
+	 * other options. Browser only; on the server each call creates its own bay.
+	 */
+	id?: string;
+}
+
 export interface BayState {
-	content: Record<string, Snippet[]>;
+	/** Registered entries per portal name, in render order. Read it, but change it through the methods. */
+	readonly content: BayContent;
+	/** Sends `snippet` to the Portal named `name`. Returns a function that removes it again. */
+	register<N extends PortalName>(
+		name: N,
+		snippet: Snippet<[PortalContext<N>]>,
+		options?: RegisterOptions
+	): () => void;
+	/** Removes every entry registered to `name`. */
+	clear(name: PortalName): void;
+	has(name: PortalName): boolean;
+	count(name: PortalName): number;
+	/** Names that currently have at least one entry. */
+	names(): string[];
+	/** Store contract: `run` is called now, after every change and when a Portal mounts or unmounts. */
+	subscribe(run: (content: BayContent) => void): () => void;
+	/** The enclosing bay, for bays created with `inherit: true`. */
+	readonly parent: BayState | undefined;
+	/** The outermost bay of the inherit chain; this bay when it has no parent. */
+	readonly root: BayState;
+	/** Default policy for Portals in this bay that share a name. */
+	readonly duplicates: PortalDuplicates;
+	/** Marks a Portal for `name` as mounted in this bay. Returns a function that unmounts it. */
+	mountPortal(name: PortalName, id?: number): () => void;
+	isMounted(name: PortalName): boolean;
+	/** Ids of the mounted Portals for `name`, in mount order. */
+	portals(name: PortalName): number[];
+	/** Names with at least one mounted Portal. */
+	portalNames(): string[];
+	/** Picks the bay a registration for `name` should go to. */
+	resolve(name: PortalName, scope?: BayScope): BayState;
 }
 
-export const createBay = () => {
-	const state = $state<BayState>({
-		content: {},
+let podCounter = 0;
+let portalCounter = 0;
+
+/**
+ * Reserves the next Pod id. Call during component init: ids then follow tree order for components
+ * created together, while one created later, e.g. in an `{#if}`, gets a higher id than its siblings.
+ */
+export const createPodId = () => podCounter++;
+
+export const createPortalId = () => portalCounter++;
+
+/** The entries a Portal renders for its `mode` and `max`. */
+export const selectEntries = (entries: PodEntry[], mode: PortalMode, max: number) => {
+	const limit = Math.max(0, max);
+	if (entries.length <= limit) return entries;
+	return mode === 'last' ? entries.slice(entries.length - limit) : entries.slice(0, limit);
+};
+
+/**
+ * Connects during component init, so the result already exists for SSR and hydration, then
+ * keeps it in sync from an effect. `read` returns the arguments for `connect`, or `null` to
+ * stay disconnected; the first effect run keeps the init connection if they haven't changed.
+ * When the component is destroyed in the browser, the last connection is handed to `release`,
+ * which disconnects it right away unless it wants to keep it around for longer.
+ */
+export const connectEagerly = <A extends unknown[]>(
+	read: () => A | null,
+	connect: (...args: A) => () => void,
+	release: (disconnect: () => void) => void = (disconnect) => disconnect()
+) => {
+	let pending: { args: A; disconnect: () => void } | undefined;
+	let destroyed = false;
+
+	// Registered before the effect, so its teardown runs first when the component is destroyed
+	onDestroy(() => {
+		destroyed = true;
 	});
+
+	const end = (disconnect: () => void) => () => {
+		if (destroyed) {
+			release(disconnect);
+		} else {
+			disconnect();
+		}
+	};
+
+	const initial = untrack(read);
+	if (initial) {
+		pending = { args: initial, disconnect: untrack(() => connect(...initial)) };
+	}
+
+	$effect(() => {
+		const args = read();
+		const claimed = pending;
+		pending = undefined;
+
+		if (claimed && args && args.every((arg, index) => arg === claimed.args[index])) {
+			return end(claimed.disconnect);
+		}
+		claimed?.disconnect();
+		if (args) {
+			return end(untrack(() => connect(...args)));
+		}
+	});
+
+	// Effects don't run on the server, and a component can be destroyed before its first run
+	onDestroy(() => pending?.disconnect());
+};
+
+/** Whether `a` renders before `b` in a Portal. */
+export const comesBefore = (a: PodEntry, b: PodEntry) => a.order < b.order || (a.order === b.order && a.id < b.id);
+
+/** Where `entry` goes in the sorted `list`, which is also its index if it is in there. */
+const positionOf = (list: PodEntry[], entry: PodEntry) => {
+	let low = 0;
+	let high = list.length;
+	while (low < high) {
+		const middle = (low + high) >> 1;
+		if (comesBefore(list[middle], entry)) {
+			low = middle + 1;
+		} else {
+			high = middle;
+		}
+	}
+	return low;
+};
+
+/** Lookups for one portal name, kept next to its list so changes don't have to search it. */
+interface NameIndex {
+	/** Rendered entries by id. */
+	ids: Map<number, PodEntry>;
+	/** The rendered entry for each key. */
+	keys: Map<string, PodEntry>;
+	/** Keyed entries replaced by a newer one with the same key. */
+	replaced: PodEntry[];
+	/** The latest registration of each id. Disposers of earlier ones do nothing. */
+	registrations: Map<number, object>;
+}
+
+// The snippet is a signal of the entry's own, so replacing it re-renders that entry alone
+const createEntry = ({ snippet, ...fields }: PodEntry): PodEntry => {
+	let current = $state.raw(snippet);
+	return {
+		...fields,
+		get snippet() {
+			return current;
+		},
+		set snippet(next) {
+			current = next;
+		}
+	};
+};
+
+const createBayState = (parent?: BayState, duplicates = parent?.duplicates ?? 'mirror'): BayState => {
+	// One signal per name for which entries there are and in what order. Adding or removing a Pod
+	// swaps that name's list for a copy with one entry more or less: a single signal update, where
+	// changing the array in place would update one signal per index. Portals then reconcile their
+	// keyed {#each}, which only creates or destroys the DOM of that Pod. Changing what an entry
+	// renders without moving it goes through the entry's own signal and leaves the list alone.
+	const lists = new SvelteMap<string, PodEntry[]>();
+	const indexes = new Map<string, NameIndex>();
+	const mounted = $state<Record<string, number[]>>({});
+	const listeners = new Set<(content: BayContent) => void>();
+
+	// Reads go through the lists, so reading a name that has no entries yet still tracks it
+	const content = new Proxy({} as BayContent, {
+		get: (_, name) => (typeof name === 'string' ? lists.get(name) : undefined),
+		has: (_, name) => typeof name === 'string' && lists.has(name),
+		ownKeys: () => [...lists.keys()],
+		getOwnPropertyDescriptor: (_, name) =>
+			typeof name === 'string' && lists.has(name)
+				? { value: lists.get(name), enumerable: true, configurable: true, writable: false }
+				: undefined
+	});
+
+	// Listeners run untracked so a subscriber inside an effect doesn't depend on what it reads
+	const notify = () => {
+		untrack(() => {
+			for (const run of listeners) {
+				run(content);
+			}
+		});
+	};
+
+	const indexFor = (name: string) => {
+		let index = indexes.get(name);
+		if (!index) {
+			index = { ids: new Map(), keys: new Map(), replaced: [], registrations: new Map() };
+			indexes.set(name, index);
+		}
+		return index;
+	};
+
+	const insert = (name: string, entry: PodEntry) => {
+		const list = untrack(() => lists.get(name)) ?? [];
+		const position = positionOf(list, entry);
+		lists.set(name, [...list.slice(0, position), entry, ...list.slice(position)]);
+
+		const index = indexFor(name);
+		index.ids.set(entry.id, entry);
+		if (entry.key !== undefined) {
+			index.keys.set(entry.key, entry);
+		}
+	};
+
+	const take = (name: string, entry: PodEntry) => {
+		const list = untrack(() => lists.get(name)) ?? [];
+		const position = positionOf(list, entry);
+		lists.set(name, [...list.slice(0, position), ...list.slice(position + 1)]);
+
+		const index = indexFor(name);
+		index.ids.delete(entry.id);
+		if (entry.key !== undefined && index.keys.get(entry.key) === entry) {
+			index.keys.delete(entry.key);
+		}
+	};
+
+	const remove = (name: string, id: number) => {
+		const index = indexes.get(name);
+		if (!index) return;
+
+		const entry = index.ids.get(id);
+		if (entry) {
+			take(name, entry);
+			if (entry.key !== undefined) {
+				restore(name, entry.key);
+			}
+			notify();
+			return;
+		}
+
+		const hiddenIndex = index.replaced.findIndex((hidden) => hidden.id === id);
+		if (hiddenIndex !== -1) {
+			index.replaced.splice(hiddenIndex, 1);
+		}
+	};
+
+	const unregister = (name: string, id: number) => {
+		const { registrations } = indexFor(name);
+		const registration = {};
+		registrations.set(id, registration);
+
+		let registered = true;
+		return () => {
+			if (!registered) return;
+			registered = false;
+			// Registering the id again took the entry over
+			if (registrations.get(id) !== registration) return;
+			registrations.delete(id);
+			remove(name, id);
+		};
+	};
+
+	// Brings back the newest entry that was replaced under `key`
+	const restore = (name: string, key: string) => {
+		const { replaced } = indexFor(name);
+		let newest: PodEntry | undefined;
+		for (const entry of replaced) {
+			if (entry.key === key && (!newest || entry.id > newest.id)) {
+				newest = entry;
+			}
+		}
+		if (newest) {
+			replaced.splice(replaced.indexOf(newest), 1);
+			insert(name, newest);
+		}
+	};
+
+	const bay: BayState = {
+		content,
+		parent,
+		get root() {
+			return parent?.root ?? bay;
+		},
+		register(name, typed, { order = 0, id = createPodId(), source, key } = {}) {
+			// Every Portal of a name passes that name's context, so entries don't need to keep its type
+			const snippet = typed as PodEntry['snippet'];
+			const index = indexFor(name);
+			// Registering an id again replaces its entry, in place when it keeps its spot
+			const existing = index.ids.get(id);
+			if (existing && existing.order === order && existing.key === key) {
+				existing.snippet = snippet;
+				existing.source = source;
+				notify();
+				return unregister(name, id);
+			}
+			if (existing) {
+				take(name, existing);
+			}
+
+			const entry = createEntry({ id, snippet, order, source, key });
+			const current = key === undefined ? undefined : index.keys.get(key);
+
+			if (current && current.id > id) {
+				index.replaced.push(entry);
+			} else {
+				if (current) {
+					take(name, current);
+					index.replaced.push(current);
+				}
+				insert(name, entry);
+			}
+			notify();
+			return unregister(name, id);
+		},
+		clear(name) {
+			const index = indexes.get(name);
+			if (index) {
+				index.ids.clear();
+				index.keys.clear();
+				index.replaced.length = 0;
+				index.registrations.clear();
+			}
+			if (untrack(() => lists.get(name)?.length)) {
+				lists.set(name, []);
+				notify();
+			}
+		},
+		has: (name) => (lists.get(name)?.length ?? 0) > 0,
+		count: (name) => lists.get(name)?.length ?? 0,
+		names: () => [...lists].filter(([, list]) => list.length > 0).map(([name]) => name),
+		subscribe(run) {
+			untrack(() => run(content));
+			listeners.add(run);
+			return () => {
+				listeners.delete(run);
+			};
+		},
+		duplicates,
+		mountPortal(name, id = createPortalId()) {
+			if (!mounted[name]) {
+				mounted[name] = [];
+			}
+			mounted[name].push(id);
+			notify();
+
+			let isMounted = true;
+			return () => {
+				if (!isMounted) return;
+				isMounted = false;
+				const index = mounted[name].indexOf(id);
+				if (index !== -1) {
+					mounted[name].splice(index, 1);
+					notify();
+				}
+			};
+		},
+		isMounted: (name) => (mounted[name]?.length ?? 0) > 0,
+		portals: (name) => mounted[name] ?? [],
+		portalNames: () => Object.keys(mounted).filter((name) => mounted[name].length > 0),
+		resolve(name, scope = 'nearest') {
+			if (scope === 'root') return bay.root;
+			if (scope === 'nearest') {
+				for (let candidate: BayState | undefined = bay; candidate; candidate = candidate.parent) {
+					if (candidate.isMounted(name)) return candidate;
+				}
+			}
+			return bay;
+		}
+	};
+
+	return bay;
+};
+
+// Bays shared by id between roots, with the number of components using each
+const sharedBays = new Map<string, { state: BayState; users: number }>();
+
+const joinSharedBay = (id: string, create: () => BayState) => {
+	let shared = sharedBays.get(id);
+	if (!shared) {
+		shared = { state: create(), users: 0 };
+		sharedBays.set(id, shared);
+	}
+	shared.users += 1;
+
+	// The bay is forgotten once every root using it has unmounted, so the next one starts fresh
+	const joined = shared;
+	onDestroy(() => {
+		joined.users -= 1;
+		if (joined.users === 0 && sharedBays.get(id) === joined) {
+			sharedBays.delete(id);
+		}
+	});
+
+	return joined.state;
+};
+
+export const createBay = ({ inherit, duplicates, id }: BayOptions = {}) => {
+	const outer = getContext<BayState | undefined>(PORTAL_KEY);
+	if (DEV && outer && inherit === undefined) {
+		warn(
+			'createBay() was called inside another bay, which hides the outer bay from everything below it. Call it once in your root layout, pass { inherit: true } to nest bays, or { inherit: false } if hiding it is intended.'
+		);
+	}
+	const parent = inherit ? outer : undefined;
+	const create = () => createBayState(parent, duplicates);
+	const state = BROWSER && id !== undefined ? joinSharedBay(id, create) : create();
 	setContext(PORTAL_KEY, state);
 	return state;
 };
 
-export const getBayState = () => {
+/**
+ * The bay of the current component. Pass an `id` to get a bay shared through `createBay({ id })`
+ * instead, which also works outside components.
+ */
+export const getBayState = ({ id }: { id?: string } = {}) => {
+	if (id !== undefined) {
+		const shared = sharedBays.get(id);
+		if (!shared) {
+			throw new Error(`Bay "${id}" not found. Make sure a mounted component has called createBay({ id: '${id}' }).`);
+		}
+		return shared.state;
+	}
+
 	const state = getContext<BayState>(PORTAL_KEY);
 	if (!state) {
 		throw new Error('Bay state not found. Make sure to call createBay() in your root layout.');
@@ -0,0 +1,174 @@
+import type { Snippet } from 'svelte';
+import { DEV } from 'esm-env';
+import { warn } from './diagnostics.js';
+import { comesBefore, selectEntries, type BayContent, type BayState, type PodEntry } from './portal-state.svelte.js';
+import type { PortalMode } from './types.js';
+
+/** Marks the server-rendered content of a Portal so the client can adopt it while hydrating. */
+export const SSR_ATTRIBUTE = 'data-svelte-bay-ssr';
+
+/**
+ * The part of Svelte's server renderer that snippets write to. Child renderers arrived with the
+ * server renderer rewrite in Svelte 5.39, which is why that is the lowest supported version.
+ */
+interface ServerRenderer {
+	push(html: string): void;
+	child(render: (renderer: ServerRenderer) => void): ServerRenderer;
+}
+
+type ServerSnippet<Args extends unknown[] = []> = (renderer: ServerRenderer, ...args: Args) => void;
+
+/** Whether `renderer` has the parts of Svelte's server renderer the slot writes to. */
+export const isServerRenderer = (renderer: unknown): renderer is ServerRenderer =>
+	typeof renderer === 'object' &&
+	renderer !== null &&
+	typeof (renderer as ServerRenderer).push === 'function' &&
+	typeof (renderer as ServerRenderer).child === 'function';
+
+let warned = false;
+
+// The server renderer isn't public API, so a Svelte release can change it. Portals then render
+// empty on the server and show their content once hydrated, instead of breaking the render.
+const supported = (renderer: unknown): renderer is ServerRenderer => {
+	if (isServerRenderer(renderer)) return true;
+	if (DEV && !warned) {
+		warned = true;
+		warn('This Svelte version changed its server renderer, so Portals render empty during SSR.');
+	}
+	return false;
+};
+
+export interface ServerSlotOptions {
+	name: string;
+	/** Inactive Portals (see `PortalDuplicates`) render nothing. */
+	active: boolean;
+	context: unknown;
+	mode: PortalMode;
+	max: number;
+	fallback?: Snippet;
+	overflow?: Snippet<[number]>;
+}
+
+/** A piece of server output that can still be hidden after it has been written. */
+interface Piece {
+	/** Takes pieces written later that go before this one. */
+	before: ServerRenderer;
+	open: ServerRenderer;
+	close: ServerRenderer;
+	hidden: boolean;
+}
+
+const noop = () => {};
+
+const writePiece = (parent: ServerRenderer, render: (renderer: ServerRenderer) => void): Piece => {
+	const before = parent.child(noop);
+	const open = parent.child(noop);
+	parent.child(render);
+	const close = parent.child(noop);
+	return { before, open, close, hidden: false };
+};
+
+// Server output can't be taken back, so hidden pieces are wrapped in an inert <template>
+const hidePiece = (piece: Piece) => {
+	if (piece.hidden) return;
+	piece.hidden = true;
+	piece.open.push('<template>');
+	piece.close.push('</template>');
+};
+
+/**
+ * Server-side stand-in for a Portal's content. Pods further down the tree register after the
+ * Portal has rendered, so instead of writing its content once, the slot reserves child renderers
+ * and fills them as the bay changes. Svelte collects the output only after the whole tree has
+ * rendered, which puts late content in the right place. On the client, Portal adopts this markup
+ * while hydrating and then switches to its live content.
+ *
+ * Content that registers late goes into the `before` renderer of the piece it sorts in front of,
+ * so the server writes entries in the same order as the client renders them.
+ */
+export const createServerSlot = (bay: BayState, getOptions: () => ServerSlotOptions) => {
+	let unsubscribe = noop;
+
+	const fill = (renderer: unknown) => {
+		if (!supported(renderer)) return;
+		const { name, active, context, mode, max, fallback, overflow } = getOptions();
+		if (!active) return;
+
+		let fallbackPiece: Piece | undefined;
+		let entrySlot = renderer;
+		let overflowSlot = renderer;
+		const whole = writePiece(renderer, (r) => {
+			fallbackPiece = fallback && writePiece(r, (f) => (fallback as unknown as ServerSnippet)(f));
+			entrySlot = r.child(noop);
+			overflowSlot = r.child(noop);
+		});
+		const pieces = new Map<number, { entry: PodEntry; piece: Piece }>();
+		let overflowPiece: Piece | undefined;
+		let overflowCount = 0;
+
+		// In front of the earliest written entry that sorts after this one, else at the end
+		const placeFor = (entry: PodEntry) => {
+			let next: { entry: PodEntry; piece: Piece } | undefined;
+			for (const written of pieces.values()) {
+				if (comesBefore(entry, written.entry) && (!next || comesBefore(written.entry, next.entry))) {
+					next = written;
+				}
+			}
+			return next ? next.piece.before : entrySlot;
+		};
+
+		const update = (content: BayContent) => {
+			// A Portal with the same name mounted later can take over, e.g. with `duplicates: 'last'`.
+			// Nothing unmounts during a server render, so it never becomes active again.
+			if (!getOptions().active) {
+				hidePiece(whole);
+				unsubscribe();
+				return;
+			}
+
+			const entries = content[name] ?? [];
+			for (const entry of entries) {
+				if (!pieces.has(entry.id)) {
+					const snippet = entry.snippet as unknown as ServerSnippet<[unknown]>;
+					const piece = writePiece(placeFor(entry), (r) => snippet(r, context));
+					pieces.set(entry.id, { entry, piece });
+				}
+			}
+
+			const visible = new Set(selectEntries(entries, mode, max).map((entry) => entry.id));
+			for (const [id, { piece }] of pieces) {
+				if (!visible.has(id)) hidePiece(piece);
+			}
+			if (fallbackPiece && entries.length > 0) {
+				hidePiece(fallbackPiece);
+			}
+
+			const hiddenCount = entries.length - visible.size;
+			if (overflow && hiddenCount !== overflowCount) {
+				if (overflowPiece) hidePiece(overflowPiece);
+				overflowCount = hiddenCount;
+				overflowPiece =
+					hiddenCount > 0
+						? writePiece(overflowSlot, (r) => (overflow as unknown as ServerSnippet<[number]>)(r, hiddenCount))
+						: undefined;
+			}
+		};
+
+		unsubscribe = bay.subscribe(update);
+	};
+
+	const snippet = (renderer: unknown) => {
+		if (!supported(renderer)) return;
+		// Same shape as the {@html} tag the client adopts it with: empty comments around one element
+		renderer.push(`<!----><div ${SSR_ATTRIBUTE} style="display: contents">`);
+		fill(renderer);
+		renderer.push('</div><!---->');
+	};
+
+	return {
+		snippet: snippet as unknown as Snippet,
+		/** The content without the wrapper, for places the client doesn't adopt it from, such as `<head>`. */
+		content: fill as unknown as Snippet,
+		destroy: () => unsubscribe()
+	};
+};
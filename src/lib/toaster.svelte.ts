@@ -0,0 +1,232 @@
+import { createRawSnippet, getContext, onDestroy, setContext, untrack, type Snippet } from 'svelte';
+import { BROWSER } from 'esm-env';
+import { createPodId, getBayState } from './portal-state.svelte.js';
+import type { PortalName } from './types.js';
+
+const TOASTER_KEY = Symbol('SVELTEBAYTOASTER');
+
+/** The portal name toasters send their toasts to unless given another. */
+export const TOAST_PORTAL = 'svelte-bay:toasts' as PortalName;
+
+export type ToastType = 'info' | 'success' | 'warning' | 'error';
+
+export interface ToastOptions {
+	/** Milliseconds before the toast dismisses itself; `0` or `Infinity` keeps it. Defaults to the toaster's. */
+	duration?: number;
+	/** Defaults to `info`. `error` toasts are announced right away. */
+	type?: ToastType;
+	/** A toast with the same id replaces the shown or waiting one instead of adding another. */
+	id?: string;
+}
+
+export interface Toast {
+	readonly id: string;
+	readonly type: ToastType;
+	/** The text of toasts created from a string. */
+	readonly message: string | undefined;
+	/** Whether its timer is stopped, e.g. while it is hovered or focused. */
+	readonly paused: boolean;
+}
+
+export interface ToasterOptions {
+	/** The portal name toasts are sent to. Defaults to `TOAST_PORTAL`. */
+	name?: PortalName;
+	/** How many toasts are shown at once; the others wait for a free spot. Defaults to `3`. */
+	max?: number;
+	/** Default `duration` of toasts in milliseconds. Defaults to `5000`. */
+	duration?: number;
+}
+
+export interface Toaster {
+	readonly name: PortalName;
+	/** Shows `content`, or queues it while `max` toasts are shown. Returns the toast's id. */
+	toast(content: string | Snippet, options?: ToastOptions): string;
+	/** Removes a shown or waiting toast. */
+	dismiss(id: string): void;
+	/** Removes every toast, including waiting ones. */
+	clear(): void;
+	/** The shown toast with this id. */
+	get(id: string): Toast | undefined;
+	/** Stops the toast's timer until the returned function is called. Holds add up. */
+	hold(id: string): () => void;
+	/** The shown toasts, oldest first. */
+	readonly toasts: readonly Toast[];
+	/** Number of toasts waiting to be shown. */
+	readonly queued: number;
+}
+
+interface ToastRecord {
+	toast: { id: string; type: ToastType; message: string | undefined; paused: boolean };
+	content: Snippet;
+	duration: number;
+	/** Kept across replacements so a replaced toast stays in place. */
+	podId: number;
+	unregister?: () => void;
+	timer?: ReturnType<typeof setTimeout>;
+	/** Time left on the timer when it was last stopped. */
+	remaining: number;
+	startedAt: number;
+	holds: number;
+}
+
+let toastCounter = 0;
+
+const escapeHtml = (text: string) =>
+	text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const messageSnippet = (message: string) =>
+	createRawSnippet(() => ({ render: () => `<span>${escapeHtml(message)}</span>` }));
+
+/**
+ * Creates a toaster that sends toasts to the current bay and provides it to every component below,
+ * see `getToaster`. Render them with `<ToastPortal />`. Toasts are shown in the browser only.
+ * Must be called during component initialisation.
+ */
+export const createToaster = ({ name = TOAST_PORTAL, max = 3, duration = 5000 }: ToasterOptions = {}): Toaster => {
+	const bay = getBayState();
+	let shown = $state.raw<ToastRecord[]>([]);
+	let waiting = $state.raw<ToastRecord[]>([]);
+
+	const startTimer = (record: ToastRecord) => {
+		clearTimeout(record.timer);
+		record.timer = undefined;
+		if (record.holds > 0 || !Number.isFinite(record.remaining) || record.remaining <= 0) return;
+		record.startedAt = Date.now();
+		record.timer = setTimeout(() => dismiss(record.toast.id), record.remaining);
+	};
+
+	const stopTimer = (record: ToastRecord) => {
+		if (record.timer === undefined) return;
+		clearTimeout(record.timer);
+		record.timer = undefined;
+		record.remaining -= Date.now() - record.startedAt;
+	};
+
+	// Registered like a Pod would, so the toast goes to the nearest bay with a ToastPortal mounted
+	const show = (record: ToastRecord) => {
+		record.unregister = bay.resolve(name).register(name, record.content, { id: record.podId, key: record.toast.id });
+		record.remaining = record.duration;
+		startTimer(record);
+	};
+
+	const fill = () => {
+		while (shown.length < max && waiting.length > 0) {
+			const [next, ...rest] = waiting;
+			waiting = rest;
+			shown = [...shown, next];
+			show(next);
+		}
+	};
+
+	const find = (id: string) => shown.find((record) => record.toast.id === id);
+
+	const remove = (id: string) => {
+		const record = find(id);
+		if (record) {
+			clearTimeout(record.timer);
+			record.unregister?.();
+			shown = shown.filter((other) => other !== record);
+			fill();
+		} else {
+			waiting = waiting.filter((other) => other.toast.id !== id);
+		}
+	};
+
+	const add = (content: string | Snippet, options: ToastOptions) => {
+		const id = options.id ?? `toast-${++toastCounter}`;
+		if (!BROWSER) return id;
+
+		const type = options.type ?? 'info';
+		const message = typeof content === 'string' ? content : undefined;
+		const snippet = typeof content === 'string' ? messageSnippet(content) : content;
+		const toastDuration = options.duration ?? duration;
+
+		const current = find(id);
+		if (current) {
+			// Same spot, new content and a fresh timer
+			current.toast.type = type;
+			current.toast.message = message;
+			current.content = snippet;
+			current.duration = toastDuration;
+			clearTimeout(current.timer);
+			show(current);
+			return id;
+		}
+
+		const toast = $state({ id, type, message, paused: false });
+		const record: ToastRecord = {
+			toast,
+			content: snippet,
+			duration: toastDuration,
+			podId: createPodId(),
+			remaining: toastDuration,
+			startedAt: 0,
+			holds: 0
+		};
+
+		waiting = waiting.some((other) => other.toast.id === id)
+			? waiting.map((other) => (other.toast.id === id ? record : other))
+			: [...waiting, record];
+		fill();
+		return id;
+	};
+
+	// Changes read the lists untracked, so they can be made from inside effects
+	const dismiss = (id: string) => untrack(() => remove(id));
+
+	const toaster: Toaster = {
+		name,
+		toast: (content, options = {}) => untrack(() => add(content, options)),
+		dismiss,
+		clear() {
+			for (const record of untrack(() => shown)) {
+				clearTimeout(record.timer);
+				record.unregister?.();
+			}
+			shown = [];
+			waiting = [];
+		},
+		get: (id) => find(id)?.toast,
+		hold(id) {
+			const record = untrack(() => find(id));
+			if (!record) return () => {};
+
+			record.holds += 1;
+			if (record.holds === 1) {
+				stopTimer(record);
+				record.toast.paused = true;
+			}
+
+			let held = true;
+			return () => {
+				if (!held) return;
+				held = false;
+				record.holds -= 1;
+				if (record.holds === 0) {
+					record.toast.paused = false;
+					startTimer(record);
+				}
+			};
+		},
+		get toasts() {
+			return shown.map((record) => record.toast);
+		},
+		get queued() {
+			return waiting.length;
+		}
+	};
+
+	onDestroy(() => toaster.clear());
+
+	setContext(TOASTER_KEY, toaster);
+	return toaster;
+};
+
+/** The toaster created by `createToaster()` in this component or above. */
+export const getToaster = () => {
+	const toaster = getContext<Toaster>(TOASTER_KEY);
+	if (!toaster) {
+		throw new Error('Toaster not found. Make sure to call createToaster() in a component above.');
+	}
+	return toaster;
+};
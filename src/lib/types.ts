@@ -1,4 +1,62 @@
+import type { AnimationConfig } from 'svelte/animate';
+import type { TransitionConfig } from 'svelte/transition';
+
 export interface PortalRegistry {}
 
 // If PortalRegistry has keys, use them. Otherwise default to string.
 export type PortalName = keyof PortalRegistry extends never ? string : keyof PortalRegistry;
+
+/**
+ * How a Portal picks which of its Pods to render.
+ * - `stack`: every Pod, in order (the default).
+ * - `first`: the earliest Pod only; later ones wait until it unmounts.
+ * - `last`: the most recent Pod only; earlier ones come back when it unmounts.
+ */
+export type PortalMode = 'stack' | 'first' | 'last';
+
+/**
+ * The value a Portal passes to the snippets of its Pods. Registry entries typed as
+ * `boolean` (what the Vite plugin generates) take no context.
+ */
+export type PortalContext<N extends PortalName = PortalName> = N extends keyof PortalRegistry
+	? [PortalRegistry[N]] extends [boolean]
+		? undefined
+		: PortalRegistry[N]
+	: unknown;
+
+/** A Portal's `context` prop, required when its name has a context type. */
+export type PortalContextProp<N extends PortalName = PortalName> = undefined extends PortalContext<N>
+	? {
+			/** Passed to every rendered Pod snippet. */
+			context?: PortalContext<N>;
+		}
+	: {
+			/** Passed to every rendered Pod snippet. */
+			context: PortalContext<N>;
+		};
+
+/**
+ * Which bay a Pod registers with when bays are nested with `createBay({ inherit: true })`.
+ * - `nearest`: the closest bay with a mounted Portal of that name, else the Pod's own bay (the default).
+ * - `local`: always the Pod's own bay.
+ * - `root`: the outermost bay of the chain.
+ */
+export type BayScope = 'nearest' | 'local' | 'root';
+
+type TransitionFn<P> = (node: Element, params: P) => TransitionConfig | (() => TransitionConfig);
+type AnimationFn<P> = (node: Element, rects: { from: DOMRect; to: DOMRect }, params: P) => AnimationConfig;
+
+/** A transition such as `fade` from `svelte/transition`, alone or paired with its parameters. */
+export type PortalTransition<P = any> = TransitionFn<P | undefined> | [TransitionFn<P>, P];
+
+/** An animation such as `flip` from `svelte/animate`, alone or paired with its parameters. */
+export type PortalAnimation<P = any> = AnimationFn<P | undefined> | [AnimationFn<P>, P];
+
+/**
+ * What several mounted Portals with the same name do.
+ * - `mirror`: each renders every Pod (the default).
+ * - `first`: only the earliest mounted Portal renders; content moves on when it unmounts.
+ * - `last`: only the most recently mounted Portal renders.
+ * - `error`: throws in development when a second Portal mounts; behaves like `first` in production.
+ */
+export type PortalDuplicates = 'mirror' | 'first' | 'last' | 'error';
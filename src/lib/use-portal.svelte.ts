@@ -0,0 +1,40 @@
+import { getBayState } from './portal-state.svelte.js';
+import type { BayScope, PortalName } from './types.js';
+
+/** Live status of a portal name, as returned by `usePortal`. */
+export interface PortalStatus {
+	/** Number of Pods targeting the name. */
+	readonly count: number;
+	/** Whether no Pod targets the name. */
+	readonly isEmpty: boolean;
+	/** Whether a Portal with the name is mounted. */
+	readonly isMounted: boolean;
+}
+
+/**
+ * Reactive status of a portal name in the current bay, for layouts that depend on whether
+ * a Portal has content. Pass a getter to follow a name that changes.
+ * Must be called during component initialisation.
+ */
+export const usePortal = (
+	name: PortalName | (() => PortalName),
+	{ scope = 'nearest' }: { scope?: BayScope } = {}
+): PortalStatus => {
+	const bay = getBayState();
+	const read = typeof name === 'function' ? name : () => name;
+
+	// Same lookup a Pod with this scope would use, so the status matches where its content goes
+	const resolved = $derived(bay.resolve(read(), scope));
+
+	return {
+		get count() {
+			return resolved.count(read());
+		},
+		get isEmpty() {
+			return resolved.count(read()) === 0;
+		},
+		get isMounted() {
+			return resolved.isMounted(read());
+		}
+	};
+};
@@ -22,7 +22,8 @@ function findAllSvelteFiles(dir: string, fileList: string[] = []) {
 
 function extractPortalNames(files: string[]) {
 	const names = new Set<string>();
-	const regex = /<Portal[^>]*\bname=(["'])(.*?)\1/g;
+	// Also matches Portal wrappers such as DocumentPortal and NavigationPortal
+	const regex = /<\w*Portal\b[^>]*\bname=(["'])(.*?)\1/g;
 
 	files.forEach((file) => {
 		const content = fs.readFileSync(file, 'utf-8');
@@ -0,0 +1,143 @@
+import { expect, test, describe, vi } from 'vitest';
+import { render } from 'vitest-browser-svelte';
+import TestNavigation from './components/TestNavigation.svelte';
+
+// Stands in for SvelteKit's router, which only runs inside an app
+const router = vi.hoisted(() => ({
+	before: new Set<(navigation: { willUnload: boolean; complete: Promise<void> }) => void>(),
+	after: new Set<() => void>()
+}));
+
+vi.mock('$app/navigation', async () => {
+	const { onMount } = await import('svelte');
+	const listen = <T,>(callbacks: Set<T>, callback: T) =>
+		onMount(() => {
+			callbacks.add(callback);
+			return () => {
+				callbacks.delete(callback);
+			};
+		});
+	return {
+		beforeNavigate: (callback: Parameters<typeof router.before.add>[0]) => listen(router.before, callback),
+		afterNavigate: (callback: () => void) => listen(router.after, callback)
+	};
+});
+
+const startNavigation = () => {
+	for (const callback of router.before) callback({ willUnload: false, complete: new Promise(() => {}) });
+};
+
+const finishNavigation = () => {
+	for (const callback of router.after) callback();
+};
+
+const portalText = () => document.querySelector('[data-testid="portal"]')?.textContent?.replace(/\s+/g, '') ?? '';
+
+// ====================
+// Navigation Portal Tests
+// ====================
+
+describe('NavigationPortal', () => {
+	test('holds the previous content until the next page registers', async () => {
+		const component = render(TestNavigation, { portalName: 'held-portal', page: 'first' });
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+		expect(portalText()).toBe('[FirstPage]');
+
+		startNavigation();
+		await component.rerender({ page: 'none' });
+		await new Promise(resolve => setTimeout(resolve, 100));
+		expect(portalText()).toBe('[FirstPage]');
+
+		await component.rerender({ page: 'second' });
+		await new Promise(resolve => setTimeout(resolve, 100));
+		expect(portalText()).toBe('[SecondPage]');
+		finishNavigation();
+	});
+
+	test('goes empty once a navigation ends without new content', async () => {
+		const component = render(TestNavigation, { portalName: 'released-portal', page: 'first' });
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		startNavigation();
+		await component.rerender({ page: 'none' });
+		await new Promise(resolve => setTimeout(resolve, 100));
+		expect(portalText()).toBe('[FirstPage]');
+
+		finishNavigation();
+		await new Promise(resolve => setTimeout(resolve, 100));
+		expect(portalText()).toBe('');
+	});
+});
+
+// ====================
+// Pod Lifetime Tests
+// ====================
+
+describe('NavigationPod lifetimes', () => {
+	test('navigation keeps content until the next navigation completes', async () => {
+		const component = render(TestNavigation, {
+			portalName: 'navigation-lifetime-portal',
+			page: 'first',
+			lifetime: 'navigation'
+		});
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		await component.rerender({ page: 'none' });
+		await new Promise(resolve => setTimeout(resolve, 100));
+		expect(portalText()).toBe('[FirstPage]');
+
+		startNavigation();
+		finishNavigation();
+		await new Promise(resolve => setTimeout(resolve, 100));
+		expect(portalText()).toBe('');
+	});
+
+	test('navigation keeps content of a Pod unmounted by a navigation until the one after it', async () => {
+		const component = render(TestNavigation, {
+			portalName: 'navigation-unmount-portal',
+			page: 'first',
+			lifetime: 'navigation'
+		});
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		// A page's Pods unmount between beforeNavigate and afterNavigate
+		startNavigation();
+		await component.rerender({ page: 'none' });
+		finishNavigation();
+		await new Promise(resolve => setTimeout(resolve, 100));
+		expect(portalText()).toBe('[FirstPage]');
+
+		startNavigation();
+		finishNavigation();
+		await new Promise(resolve => setTimeout(resolve, 100));
+		expect(portalText()).toBe('');
+	});
+
+	test('persist keeps content across navigations until another Pod replaces it', async () => {
+		const component = render(TestNavigation, {
+			portalName: 'persist-lifetime-portal',
+			page: 'first',
+			lifetime: 'persist'
+		});
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		await component.rerender({ page: 'none' });
+		startNavigation();
+		finishNavigation();
+		await new Promise(resolve => setTimeout(resolve, 100));
+		expect(portalText()).toBe('[FirstPage]');
+
+		await component.rerender({ page: 'second' });
+		await new Promise(resolve => setTimeout(resolve, 100));
+		expect(portalText()).toBe('[SecondPage]');
+
+		await component.rerender({ page: 'none' });
+		await new Promise(resolve => setTimeout(resolve, 100));
+		expect(portalText()).toBe('[SecondPage]');
+	});
+});
@@ -0,0 +1,78 @@
+import { bench, describe } from 'vitest';
+import { createRawSnippet, flushSync, mount, untrack, type Snippet } from 'svelte';
+import type { BayState, PodEntry } from '../src/lib/index.ts';
+import TestBayHandle from './components/TestBayHandle.svelte';
+
+const ENTRIES = 300;
+
+const snippets = Array.from({ length: ENTRIES }, (_, id) =>
+	createRawSnippet(() => ({ render: () => `<p>${id}</p>` })) as Snippet<[unknown]>
+);
+
+const comesBefore = (a: PodEntry, b: PodEntry) => a.order < b.order || (a.order === b.order && a.id < b.id);
+
+// The registry before entries were indexed by id: one deeply reactive array per name, with
+// entries spliced in and out in place
+const createLegacyRegistry = () => {
+	const content = $state<Record<string, PodEntry[]>>({});
+	return {
+		content,
+		register(name: string, entry: PodEntry) {
+			untrack(() => {
+				content[name] ??= [];
+				const list = content[name];
+				let index = list.findIndex((existing) => comesBefore(entry, existing));
+				if (index === -1) index = list.length;
+				list.splice(index, 0, entry);
+			});
+			return () => {
+				untrack(() => {
+					const list = content[name];
+					const index = list.findIndex((existing) => existing.id === entry.id);
+					if (index !== -1) list.splice(index, 1);
+				});
+			};
+		}
+	};
+};
+
+let bay!: BayState;
+mount(TestBayHandle, {
+	target: document.body,
+	props: { portalName: 'bench-unused', onbay: (state: BayState) => (bay = state) }
+});
+const legacy = createLegacyRegistry();
+
+// Registers every entry in front of the previous ones, then removes them, reading the list like a
+// Portal does after each change
+const churn = (content: Record<string, PodEntry[] | undefined>, register: (entry: PodEntry) => () => void) => {
+	const stop = $effect.root(() => {
+		$effect(() => {
+			for (const entry of content.bench ?? []) {
+				void entry.snippet;
+			}
+		});
+	});
+
+	const removals: (() => void)[] = [];
+	for (let id = 0; id < ENTRIES; id++) {
+		removals.push(register({ id, order: ENTRIES - id, snippet: snippets[id] }));
+		flushSync();
+	}
+	for (const remove of removals) {
+		remove();
+		flushSync();
+	}
+
+	stop();
+};
+
+describe(`registering and removing ${ENTRIES} entries`, () => {
+	bench('legacy registry', () => {
+		churn(legacy.content, (entry) => legacy.register('bench', entry));
+	});
+
+	bench('bay', () => {
+		churn(bay.content, ({ id, order, snippet }) => bay.register('bench', snippet, { id, order }));
+	});
+});
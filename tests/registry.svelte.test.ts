@@ -0,0 +1,157 @@
+import { expect, test, describe } from 'vitest';
+import { render } from 'vitest-browser-svelte';
+import { createRawSnippet, flushSync, type Snippet } from 'svelte';
+import type { BayState, PodEntry } from '../src/lib/index.ts';
+import TestBayHandle from './components/TestBayHandle.svelte';
+
+const entrySnippet = (id: number, text: string | number = id) =>
+	createRawSnippet(() => ({ render: () => `<p data-entry="${id}">${text}</p>` })) as Snippet<[unknown]>;
+
+const mountBay = async (portalName: string) => {
+	let bay!: BayState;
+	render(TestBayHandle, { portalName, onbay: (state) => (bay = state) });
+	await new Promise(resolve => setTimeout(resolve, 100));
+	return bay;
+};
+
+// Runs an effect that reads the list like a Portal does and counts how often it runs
+const watchList = (bay: BayState, name: string) => {
+	const seen = { runs: 0, entries: [] as PodEntry[] };
+	const stop = $effect.root(() => {
+		$effect(() => {
+			seen.runs += 1;
+			seen.entries = [...(bay.content[name] ?? [])];
+		});
+	});
+	flushSync();
+	return { seen, stop };
+};
+
+const observe = (element: Element) => {
+	const observer = new MutationObserver(() => {});
+	observer.observe(element, { childList: true, subtree: true, characterData: true });
+	return observer;
+};
+
+const nodesNamed = (nodes: Node[], name: string) => nodes.filter((node) => node.nodeName === name);
+
+// ====================
+// Registry Reactivity Tests
+// ====================
+
+describe('Registry Reactivity', () => {
+	test('adding or removing an entry updates the list once and keeps the other entries', async () => {
+		const bay = await mountBay('registry-list');
+		const { seen, stop } = watchList(bay, 'registry-list');
+		const runs = seen.runs;
+
+		const removals: (() => void)[] = [];
+		for (let i = 0; i < 50; i++) {
+			// In front of everything, the worst case for a list changed in place
+			removals.push(bay.register('registry-list', entrySnippet(i), { id: 10_000 + i, order: -i }));
+			flushSync();
+		}
+		expect(seen.runs).toBe(runs + 50);
+
+		const before = seen.entries;
+		removals[0]();
+		flushSync();
+		expect(seen.runs).toBe(runs + 51);
+		expect(seen.entries.length).toBe(49);
+		expect(seen.entries.every((entry, index) => entry === before[index])).toBe(true);
+
+		stop();
+	});
+
+	test('adding or removing an entry only touches that entry in the DOM', async () => {
+		const bay = await mountBay('registry-dom');
+		for (let i = 0; i < 200; i++) {
+			bay.register('registry-dom', entrySnippet(i), { id: 20_000 + i, order: i });
+		}
+		flushSync();
+
+		const portal = document.querySelector('[data-testid="portal"]')!;
+		const before = [...portal.querySelectorAll('p')];
+		expect(before.length).toBe(200);
+
+		const observer = observe(portal);
+
+		const remove = bay.register('registry-dom', entrySnippet(-1), { id: 30_000, order: -1 });
+		flushSync();
+		let records = observer.takeRecords();
+		expect(nodesNamed(records.flatMap((record) => [...record.addedNodes]), 'P').length).toBe(1);
+		expect(records.some((record) => record.removedNodes.length > 0)).toBe(false);
+
+		remove();
+		flushSync();
+		records = observer.takeRecords();
+		expect(nodesNamed(records.flatMap((record) => [...record.removedNodes]), 'P').length).toBe(1);
+		expect(records.some((record) => record.addedNodes.length > 0)).toBe(false);
+		observer.disconnect();
+
+		// The other entries kept their nodes throughout
+		const after = [...portal.querySelectorAll('p')];
+		expect(after.length).toBe(200);
+		expect(after.every((node, index) => node === before[index])).toBe(true);
+	});
+
+	test('registering new content for an entry in place leaves the list alone', async () => {
+		const bay = await mountBay('registry-swap');
+		for (let i = 0; i < 20; i++) {
+			bay.register('registry-swap', entrySnippet(i), { id: 40_000 + i, order: i });
+		}
+		const { seen, stop } = watchList(bay, 'registry-swap');
+		const runs = seen.runs;
+		const entry = seen.entries[5];
+
+		const portal = document.querySelector('[data-testid="portal"]')!;
+		const before = [...portal.querySelectorAll('p')];
+		const observer = observe(portal);
+
+		bay.register('registry-swap', entrySnippet(5, 'Updated'), { id: 40_005, order: 5 });
+		flushSync();
+
+		expect(seen.runs).toBe(runs);
+		expect(bay.content['registry-swap'][5]).toBe(entry);
+
+		const records = observer.takeRecords();
+		observer.disconnect();
+		expect(nodesNamed(records.flatMap((record) => [...record.addedNodes]), 'P').length).toBe(1);
+		expect(nodesNamed(records.flatMap((record) => [...record.removedNodes]), 'P')).toEqual([before[5]]);
+
+		const after = [...portal.querySelectorAll('p')];
+		expect(after[5].textContent).toBe('Updated');
+		expect(after.every((node, index) => index === 5 || node === before[index])).toBe(true);
+
+		stop();
+	});
+
+	test('the disposer of a registration that was registered again does nothing', async () => {
+		const bay = await mountBay('registry-dispose');
+		const first = bay.register('registry-dispose', entrySnippet(1), { id: 60_001, order: 1 });
+		const second = bay.register('registry-dispose', entrySnippet(1, 'Updated'), { id: 60_001, order: 1 });
+		const moved = bay.register('registry-dispose', entrySnippet(1, 'Moved'), { id: 60_001, order: 2 });
+
+		first();
+		second();
+		flushSync();
+		expect(bay.count('registry-dispose')).toBe(1);
+		expect(document.querySelector('[data-testid="portal"] p')?.textContent).toBe('Moved');
+
+		moved();
+		flushSync();
+		expect(bay.count('registry-dispose')).toBe(0);
+	});
+
+	test('registering an entry again at another position moves it', async () => {
+		const bay = await mountBay('registry-move');
+		bay.register('registry-move', entrySnippet(1), { id: 50_001, order: 1 });
+		bay.register('registry-move', entrySnippet(2), { id: 50_002, order: 2 });
+		bay.register('registry-move', entrySnippet(1), { id: 50_001, order: 3 });
+		flushSync();
+
+		expect(bay.content['registry-move'].map((entry) => entry.id)).toEqual([50_002, 50_001]);
+		const texts = [...document.querySelectorAll('[data-testid="portal"] p')].map((node) => node.textContent);
+		expect(texts).toEqual(['2', '1']);
+	});
+});
@@ -0,0 +1,24 @@
+// Components tests/server-render.ts renders on the server, with their props. The tests hydrate
+// the output with the same props.
+export const serverFixtures = {
+	ordered: { component: 'TestOrderedPods.svelte', props: { portalName: 'ssr-ordered' } },
+	last: { component: 'TestPortalModes.svelte', props: { portalName: 'ssr-last', mode: 'last', podContents: ['One', 'Two'] } },
+	max: {
+		component: 'TestPortalModes.svelte',
+		props: { portalName: 'ssr-max', mode: 'stack', max: 2, podContents: ['One', 'Two'] }
+	},
+	empty: { component: 'TestFallbackPortal.svelte', props: { portalName: 'ssr-empty', showPod: false } },
+	filled: { component: 'TestFallbackPortal.svelte', props: { portalName: 'ssr-filled', showPod: true } },
+	duplicates: { component: 'TestSharedPortalName.svelte', props: { portalName: 'ssr-shared', duplicates: 'last' } }
+} as const;
+
+export type ServerFixture = keyof typeof serverFixtures;
+
+declare module 'vitest' {
+	export interface ProvidedContext {
+		/** Server-rendered body of each fixture. */
+		serverRendered: Record<ServerFixture, string>;
+		/** Whether snippets get the renderer Portals write to, and how `{@html ' '}` renders in a `<p>`. */
+		serverRenderer: { supported: boolean; html: string };
+	}
+}
@@ -0,0 +1,40 @@
+import { fileURLToPath } from 'node:url';
+import { createServer } from 'vite';
+import { svelte } from '@sveltejs/vite-plugin-svelte';
+import type { TestProject } from 'vitest/node';
+import { serverFixtures, type ServerFixture } from './server-fixtures.ts';
+
+// Browser tests can't compile components for the server, so they are rendered here, before the
+// tests run, and handed over with `inject('serverRendered')`
+export default async function setup(project: TestProject) {
+	const server = await createServer({
+		configFile: false,
+		root: fileURLToPath(new URL('..', import.meta.url)),
+		plugins: [svelte()],
+		server: { middlewareMode: true, hmr: false },
+		appType: 'custom',
+		logLevel: 'silent'
+	});
+
+	try {
+		const { render } = await server.ssrLoadModule('svelte/server');
+		const rendered = {} as Record<ServerFixture, string>;
+		for (const [name, { component, props }] of Object.entries(serverFixtures)) {
+			const module = await server.ssrLoadModule(`/tests/components/${component}`);
+			rendered[name as ServerFixture] = render(module.default, { props }).body;
+		}
+		project.provide('serverRendered', rendered);
+
+		// Portals write to Svelte's server renderer and mimic its {@html} output, neither of which is
+		// public, so check both against the installed Svelte
+		const { isServerRenderer } = await server.ssrLoadModule('/src/lib/ssr.ts');
+		const probe = await server.ssrLoadModule('/tests/components/TestServerProbe.svelte');
+		let supported = false;
+		const { body } = render(probe.default, {
+			props: { probe: (renderer: unknown) => void (supported = isServerRenderer(renderer)) }
+		});
+		project.provide('serverRenderer', { supported, html: body });
+	} finally {
+		await server.close();
+	}
+}
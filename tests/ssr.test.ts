@@ -0,0 +1,129 @@
+import { expect, test, describe, inject, vi, afterEach } from 'vitest';
+import { flushSync, hydrate, tick, unmount, type Component } from 'svelte';
+import { serverFixtures, type ServerFixture } from './server-fixtures.ts';
+import TestOrderedPods from './components/TestOrderedPods.svelte';
+import TestPortalModes from './components/TestPortalModes.svelte';
+import TestSharedPortalName from './components/TestSharedPortalName.svelte';
+
+const serverRendered = inject('serverRendered');
+const serverRenderer = inject('serverRenderer');
+
+// Text of the Portal, without the pieces the server hid in <template>s
+const portalText = (root: ParentNode, testId = 'portal') =>
+	root.querySelector(`[data-testid="${testId}"]`)?.textContent?.replace(/\s+/g, '') ?? '';
+
+const parse = (name: ServerFixture) => {
+	const container = document.createElement('div');
+	container.innerHTML = serverRendered[name];
+	return container;
+};
+
+let cleanups: (() => void)[] = [];
+
+afterEach(() => {
+	for (const cleanup of cleanups) cleanup();
+	cleanups = [];
+	vi.restoreAllMocks();
+});
+
+const hydrateFixture = (name: ServerFixture, component: Component<any>) => {
+	const container = parse(name);
+	document.body.append(container);
+	const app = hydrate(component, { target: container, props: { ...serverFixtures[name].props } });
+	cleanups.push(() => {
+		unmount(app);
+		container.remove();
+	});
+	return container;
+};
+
+// ====================
+// Server Rendering Tests
+// ====================
+
+describe('Server Rendering', () => {
+	test('renders Pods declared after their Portal in the order the client uses', () => {
+		expect(portalText(parse('ordered'))).toBe('[Gamma][Alpha][Beta]');
+	});
+
+	test('applies mode and max', () => {
+		expect(portalText(parse('last'))).toBe('[Latest]');
+		expect(portalText(parse('max'))).toBe('[One][Two](+1more)');
+	});
+
+	test('renders the fallback only while no Pod is registered', () => {
+		expect(portalText(parse('empty'))).toBe('Nothingyet');
+		expect(portalText(parse('filled'))).toBe('Filled');
+	});
+
+	test('renders shared content only in the Portal the duplicates policy picks', () => {
+		const container = parse('duplicates');
+		expect(portalText(container, 'portal-1')).toBe('');
+		expect(portalText(container, 'portal-2')).toBe('SharedContent');
+	});
+});
+
+// ====================
+// Server Renderer Tests
+// ====================
+
+// Portals depend on internals of Svelte's server renderer. These fail first when they change.
+describe('Server Renderer', () => {
+	test('passes snippets the renderer Portals write to', () => {
+		expect(serverRenderer.supported).toBe(true);
+	});
+
+	test('renders {@html} between the comments Portals write around their content', () => {
+		// The opening comment holds a hash of the content in development, which an empty one skips
+		expect(serverRenderer.html).toMatch(/<p><!--[a-z0-9]*--> <!----><\/p>/);
+	});
+});
+
+// ====================
+// Hydration Tests
+// ====================
+
+describe('Hydration', () => {
+	test('adopts the server markup, then swaps in live content without a mismatch', async () => {
+		const warn = vi.spyOn(console, 'warn');
+		const container = hydrateFixture('ordered', TestOrderedPods);
+
+		// Until mounted, the Portal shows what the server wrote
+		expect(container.querySelector('[data-svelte-bay-ssr]')).toBeTruthy();
+		expect(portalText(container)).toBe('[Gamma][Alpha][Beta]');
+
+		flushSync();
+		await tick();
+
+		expect(container.querySelector('[data-svelte-bay-ssr]')).toBeNull();
+		expect(portalText(container)).toBe('[Gamma][Alpha][Beta]');
+		expect(warn).not.toHaveBeenCalled();
+
+		(container.querySelector('[data-testid="toggle-beta"]') as HTMLButtonElement).click();
+		flushSync();
+		expect(portalText(container)).toBe('[Gamma][Alpha]');
+	});
+
+	test('keeps mode and max output through hydration', async () => {
+		const warn = vi.spyOn(console, 'warn');
+		const container = hydrateFixture('max', TestPortalModes);
+
+		flushSync();
+		await tick();
+
+		expect(portalText(container)).toBe('[One][Two](+1more)');
+		expect(warn).not.toHaveBeenCalled();
+	});
+
+	test('hydrates Portals sharing a name with the same one active', async () => {
+		const warn = vi.spyOn(console, 'warn');
+		const container = hydrateFixture('duplicates', TestSharedPortalName);
+
+		flushSync();
+		await tick();
+
+		expect(portalText(container, 'portal-1')).toBe('');
+		expect(portalText(container, 'portal-2')).toBe('SharedContent');
+		expect(warn).not.toHaveBeenCalled();
+	});
+});
@@ -1,12 +1,35 @@
-import { expect, test, describe } from 'vitest';
+import { expect, test, describe, vi } from 'vitest';
 import { render } from 'vitest-browser-svelte';
-import { createBay, getBayState } from '../src/lib/index.ts';
+import { createBay, getBayState, type Toaster, type ToasterOptions } from '../src/lib/index.ts';
 import TestWrapper from './components/TestWrapper.svelte';
 import TestWithPortalAndPod from './components/TestWithPortalAndPod.svelte';
 import TestMultiplePods from './components/TestMultiplePods.svelte';
 import TestMultiplePortals from './components/TestMultiplePortals.svelte';
 import TestToggleablePortal from './components/TestToggleablePortal.svelte';
 import TestReactivePodContent from './components/TestReactivePodContent.svelte';
+import TestOrderedPods from './components/TestOrderedPods.svelte';
+import TestRapidCycles from './components/TestRapidCycles.svelte';
+import TestPortalModes from './components/TestPortalModes.svelte';
+import TestPortalContext from './components/TestPortalContext.svelte';
+import TestBayController from './components/TestBayController.svelte';
+import TestNestedBays from './components/TestNestedBays.svelte';
+import TestDomTarget from './components/TestDomTarget.svelte';
+import TestKeyedPods from './components/TestKeyedPods.svelte';
+import TestDisabledPod from './components/TestDisabledPod.svelte';
+import TestSharedPortalName from './components/TestSharedPortalName.svelte';
+import TestDiagnostics from './components/TestDiagnostics.svelte';
+import TestInspector from './components/TestInspector.svelte';
+import TestPortalStatus from './components/TestPortalStatus.svelte';
+import TestPodContext from './components/TestPodContext.svelte';
+import TestPodErrors from './components/TestPodErrors.svelte';
+import TestDocumentPortal from './components/TestDocumentPortal.svelte';
+import TestSharedBayPortal from './components/TestSharedBayPortal.svelte';
+import TestSharedBayPod from './components/TestSharedBayPod.svelte';
+import TestKeyedSingletons from './components/TestKeyedSingletons.svelte';
+import TestHeadPods from './components/TestHeadPods.svelte';
+import TestAsyncPod from './components/TestAsyncPod.svelte';
+import TestToaster from './components/TestToaster.svelte';
+import TestModals from './components/TestModals.svelte';
 
 // Note: createBay and getBayState are Svelte context APIs that must be called
 // within component context. Their functionality is thoroughly tested in the
@@ -100,6 +123,852 @@ describe('Pod Component', () => {
 	});
 });
 
+// ====================
+// Portal Fallback Tests
+// ====================
+
+describe('Portal Fallback', () => {
+	test('renders fallback while no Pod is registered', async () => {
+		const component = render(TestRapidCycles, {
+			portalName: 'fallback-portal',
+			showPod: false
+		});
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		const portal = document.querySelector('[data-testid="portal"]');
+		expect(portal?.textContent).toContain('Fallback Content');
+	});
+
+	test('hides fallback while a Pod is registered', async () => {
+		const component = render(TestRapidCycles, {
+			portalName: 'fallback-hidden-portal',
+			showPod: true
+		});
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		const portal = document.querySelector('[data-testid="portal"]');
+		expect(portal?.textContent).toContain('Cycle Content');
+		expect(portal?.textContent).not.toContain('Fallback Content');
+	});
+
+	test('restores fallback after rapid mount/unmount cycles', async () => {
+		const component = render(TestRapidCycles, {
+			portalName: 'fallback-cycles-portal',
+			showPod: true
+		});
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		for (let i = 0; i < 10; i++) {
+			await component.rerender({ showPod: i % 2 === 1 });
+			await new Promise(resolve => setTimeout(resolve, 10));
+		}
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		// The last cycle mounted the Pod
+		const portal = document.querySelector('[data-testid="portal"]');
+		expect(portal?.textContent).toContain('Cycle Content');
+		expect(portal?.textContent).not.toContain('Fallback Content');
+
+		await component.rerender({ showPod: false });
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		expect(portal?.textContent).toContain('Fallback Content');
+		expect(portal?.textContent).not.toContain('Cycle Content');
+	});
+});
+
+// ====================
+// Portal Mode Tests
+// ====================
+
+describe('Portal Modes', () => {
+	test('stack mode renders every Pod', async () => {
+		const component = render(TestPortalModes, {
+			portalName: 'stack-mode-portal',
+			mode: 'stack',
+			podContents: ['A', 'B']
+		});
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		const portal = document.querySelector('[data-testid="portal"]');
+		expect(portal?.textContent?.replace(/\s+/g, '')).toBe('[A][B][Latest]');
+	});
+
+	test('last mode renders the most recent Pod and restores earlier ones', async () => {
+		const component = render(TestPortalModes, {
+			portalName: 'last-mode-portal',
+			mode: 'last',
+			podContents: ['A', 'B']
+		});
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		const portal = document.querySelector('[data-testid="portal"]');
+		expect(portal?.textContent?.replace(/\s+/g, '')).toBe('[Latest]');
+
+		const toggleButton = document.querySelector('[data-testid="toggle-latest"]');
+		(toggleButton as HTMLButtonElement).click();
+		await new Promise(resolve => setTimeout(resolve, 50));
+
+		expect(portal?.textContent?.replace(/\s+/g, '')).toBe('[B]');
+	});
+
+	test('switching from stack to last renders a single Pod', async () => {
+		const component = render(TestPortalModes, {
+			portalName: 'switched-mode-portal',
+			mode: 'stack',
+			podContents: ['A', 'B']
+		});
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		await component.rerender({ mode: 'last' });
+		await new Promise(resolve => setTimeout(resolve, 50));
+
+		const portal = document.querySelector('[data-testid="portal"]');
+		expect(portal?.textContent?.replace(/\s+/g, '')).toBe('[Latest]');
+	});
+
+	test('first mode renders the earliest Pod', async () => {
+		const component = render(TestPortalModes, {
+			portalName: 'first-mode-portal',
+			mode: 'first',
+			podContents: ['A', 'B']
+		});
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		const portal = document.querySelector('[data-testid="portal"]');
+		expect(portal?.textContent?.replace(/\s+/g, '')).toBe('[A]');
+	});
+
+	test('max limits rendered Pods and passes the hidden count to overflow', async () => {
+		const component = render(TestPortalModes, {
+			portalName: 'max-portal',
+			mode: 'stack',
+			max: 2,
+			podContents: ['A', 'B', 'C', 'D']
+		});
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		const portal = document.querySelector('[data-testid="portal"]');
+		expect(portal?.textContent?.replace(/\s+/g, '')).toBe('[A][B](+3more)');
+
+		const toggleButton = document.querySelector('[data-testid="toggle-latest"]');
+		(toggleButton as HTMLButtonElement).click();
+		await new Promise(resolve => setTimeout(resolve, 50));
+
+		expect(portal?.textContent?.replace(/\s+/g, '')).toBe('[A][B](+2more)');
+	});
+});
+
+// ====================
+// Portal Context Tests
+// ====================
+
+describe('Portal Context', () => {
+	test('passes the Portal context to Pod snippets', async () => {
+		const component = render(TestPortalContext, {
+			portalName: 'context-portal',
+			label: 'From Portal'
+		});
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		const label = document.querySelector('[data-testid="label"]');
+		expect(label?.textContent).toBe('From Portal');
+
+		const closeButton = document.querySelector('[data-testid="close-button"]');
+		(closeButton as HTMLButtonElement).click();
+		await new Promise(resolve => setTimeout(resolve, 50));
+
+		const closedCount = document.querySelector('[data-testid="closed-count"]');
+		expect(closedCount?.textContent).toBe('1');
+	});
+
+	test('updates Pod snippets when the context changes', async () => {
+		const component = render(TestPortalContext, {
+			portalName: 'reactive-context-portal',
+			label: 'Before'
+		});
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		await component.rerender({ label: 'After' });
+		await new Promise(resolve => setTimeout(resolve, 50));
+
+		const label = document.querySelector('[data-testid="label"]');
+		expect(label?.textContent).toBe('After');
+	});
+});
+
+// ====================
+// Pod Component Context Tests
+// ====================
+
+describe('Pod Component Context', () => {
+	test('teleported content reads the context where the Pod is declared', async () => {
+		const component = render(TestPodContext, { portalName: 'context-portal' });
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		const theme = document.querySelector('[data-testid="portal"] [data-testid="theme"]');
+		expect(theme?.textContent).toBe('pod-theme');
+	});
+
+	test('preserveContext={false} uses the context of the Portal', async () => {
+		const component = render(TestPodContext, { portalName: 'portal-context-portal', preserveContext: false });
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		const theme = document.querySelector('[data-testid="portal"] [data-testid="theme"]');
+		expect(theme?.textContent).toBe('portal-theme');
+	});
+});
+
+// ====================
+// Pod Error Isolation Tests
+// ====================
+
+describe('Pod Error Isolation', () => {
+	test('a throwing Pod renders failed without affecting other Pods', async () => {
+		const onerror = vi.fn();
+		const component = render(TestPodErrors, { portalName: 'isolated-portal', onerror });
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		const portal = document.querySelector('[data-testid="portal"]');
+		expect(portal?.textContent).toContain('Healthy Content');
+		expect(portal?.querySelector('[data-testid="failed"]')?.textContent).toBe('Broken Content');
+
+		expect(onerror).toHaveBeenCalledTimes(1);
+		const [error, pod] = onerror.mock.calls[0];
+		expect((error as Error).message).toBe('Broken Content');
+		expect(pod.order).toBe(2);
+		expect(pod.source).toContain('TestPodErrors.svelte');
+	});
+
+	test('reset renders the Pod again', async () => {
+		const component = render(TestPodErrors, { portalName: 'reset-portal', onerror: () => {} });
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		(document.querySelector('[data-testid="fix-button"]') as HTMLButtonElement).click();
+		(document.querySelector('[data-testid="reset-button"]') as HTMLButtonElement).click();
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		const portal = document.querySelector('[data-testid="portal"]');
+		expect(portal?.textContent).toContain('Healthy Content');
+		expect(portal?.textContent).toContain('Recovered Content');
+		expect(portal?.querySelector('[data-testid="failed"]')).toBeFalsy();
+	});
+
+	test('errors are logged when no onerror is given', async () => {
+		const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+		const component = render(TestPodErrors, { portalName: 'logged-portal' });
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		const messages = error.mock.calls.map(([message]) => String(message));
+		error.mockRestore();
+
+		expect(messages.some(message => message.includes('[svelte-bay]') && message.includes('"logged-portal"'))).toBe(true);
+	});
+});
+
+// ====================
+// Async Pod Tests
+// ====================
+
+describe('Async Pods', () => {
+	const deferred = () => {
+		let resolve!: (value: string) => void;
+		let reject!: (reason: unknown) => void;
+		const promise = new Promise<string>((res, rej) => {
+			resolve = res;
+			reject = rej;
+		});
+		return { promise, resolve, reject };
+	};
+
+	test('shows pending, then the resolved value, in the Portal', async () => {
+		const load = deferred();
+		const component = render(TestAsyncPod, { target: 'first-async', load: () => load.promise });
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		const portal = document.querySelector('[data-testid="first-portal"]');
+		expect(portal?.textContent).toContain('[Pending]');
+
+		load.resolve('Data');
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		expect(portal?.textContent).toContain('[Loaded Data]');
+		expect(portal?.textContent).not.toContain('[Pending]');
+	});
+
+	test('shows the error snippet when the promise rejects', async () => {
+		const load = deferred();
+		const component = render(TestAsyncPod, { target: 'first-async', load: () => load.promise });
+
+		load.reject(new Error('Offline'));
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		expect(document.querySelector('[data-testid="first-portal"]')?.textContent).toContain('[Failed Offline]');
+	});
+
+	test('discards a stale result when to changes', async () => {
+		const loads: Record<string, ReturnType<typeof deferred>> = {
+			'first-async': deferred(),
+			'second-async': deferred()
+		};
+		const component = render(TestAsyncPod, { target: 'first-async', load: (target: string) => loads[target].promise });
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+		await component.rerender({ target: 'second-async' });
+
+		loads['first-async'].resolve('Stale');
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		const first = document.querySelector('[data-testid="first-portal"]');
+		const second = document.querySelector('[data-testid="second-portal"]');
+		expect(first?.textContent).not.toContain('Stale');
+		expect(second?.textContent).toContain('[Pending]');
+
+		loads['second-async'].resolve('Fresh');
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		expect(second?.textContent).toContain('[Loaded Fresh]');
+		expect(second?.textContent).not.toContain('Stale');
+	});
+
+	test('a rejected promise whose content never renders is handled', async () => {
+		const unhandled: unknown[] = [];
+		const track = (event: PromiseRejectionEvent) => unhandled.push(event.reason);
+		window.addEventListener('unhandledrejection', track);
+
+		// No Portal is mounted for this name, so nothing awaits the promise
+		const component = render(TestAsyncPod, {
+			target: 'unrendered-async',
+			load: () => Promise.reject(new Error('Offline'))
+		});
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+		window.removeEventListener('unhandledrejection', track);
+
+		expect(unhandled).toEqual([]);
+	});
+
+	test('loads a lazy component with props', async () => {
+		const component = render(TestAsyncPod, { target: 'first-async', load: () => new Promise(() => {}) });
+
+		await new Promise(resolve => setTimeout(resolve, 500));
+
+		const lazy = document.querySelector('[data-testid="lazy-portal"] [data-testid="lazy-content"]');
+		expect(lazy?.textContent).toBe('Lazy Label');
+	});
+});
+
+// ====================
+// Keyed Rendering Tests
+// ====================
+
+describe('Keyed Rendering', () => {
+	test('unmounting a Pod keeps the DOM of the Pods after it', async () => {
+		const component = render(TestKeyedPods, {
+			portalName: 'keyed-portal'
+		});
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		const lastInput = document.querySelector('[data-testid="input-last"]') as HTMLInputElement;
+		lastInput.value = 'typed';
+		lastInput.focus();
+
+		const toggleButton = document.querySelector('[data-testid="toggle-middle"]');
+		(toggleButton as HTMLButtonElement).click();
+		await new Promise(resolve => setTimeout(resolve, 50));
+
+		expect(document.querySelector('[data-testid="input-middle"]')).toBeFalsy();
+		expect(document.querySelector('[data-testid="input-last"]')).toBe(lastInput);
+		expect(lastInput.value).toBe('typed');
+		expect(document.activeElement).toBe(lastInput);
+	});
+
+	test('wraps entries and plays the out transition when configured', async () => {
+		const component = render(TestKeyedPods, {
+			portalName: 'animated-portal',
+			animated: true
+		});
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		const middleInput = document.querySelector('[data-testid="input-middle"]');
+		expect(middleInput?.parentElement?.tagName).toBe('DIV');
+
+		const toggleButton = document.querySelector('[data-testid="toggle-middle"]');
+		(toggleButton as HTMLButtonElement).click();
+		await new Promise(resolve => setTimeout(resolve, 20));
+
+		// Still fading out
+		expect(document.querySelector('[data-testid="input-middle"]')).toBeTruthy();
+
+		await new Promise(resolve => setTimeout(resolve, 300));
+		expect(document.querySelector('[data-testid="input-middle"]')).toBeFalsy();
+	});
+});
+
+// ====================
+// Keyed Pod Tests
+// ====================
+
+describe('Keyed Pods', () => {
+	test('the newest Pod with a key replaces older ones and restores them on unmount', async () => {
+		const component = render(TestKeyedSingletons, { portalName: 'keyed-singleton-portal' });
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		const portal = document.querySelector('[data-testid="portal"]');
+		expect(portal?.textContent?.replace(/\s+/g, '')).toBe('[Description][Unkeyed][NewerTitle]');
+
+		const toggleButton = document.querySelector('[data-testid="toggle-button"]') as HTMLButtonElement;
+		toggleButton.click();
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		expect(portal?.textContent?.replace(/\s+/g, '')).toBe('[OlderTitle][Description][Unkeyed]');
+
+		toggleButton.click();
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		expect(portal?.textContent?.replace(/\s+/g, '')).toBe('[Description][Unkeyed][NewerTitle]');
+	});
+});
+
+// ====================
+// Head Tests
+// ====================
+
+describe('Head Management', () => {
+	test('the newest HeadPod wins per title, meta and canonical link', async () => {
+		const component = render(TestHeadPods);
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		expect(document.title).toBe('Page Title');
+		const descriptions = document.head.querySelectorAll('meta[name="description"]');
+		expect(descriptions.length).toBe(1);
+		expect(descriptions[0].getAttribute('content')).toBe('Page description');
+		expect(document.head.querySelector('meta[property="og:site_name"]')?.getAttribute('content')).toBe('Test Site');
+		expect(document.head.querySelector('link[rel="canonical"]')?.getAttribute('href')).toBe('https://example.com/page');
+
+		const toggleButton = document.querySelector('[data-testid="toggle-button"]') as HTMLButtonElement;
+		toggleButton.click();
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		expect(document.title).toBe('Layout Title');
+		expect(document.head.querySelector('meta[name="description"]')?.getAttribute('content')).toBe('Layout description');
+		expect(document.head.querySelector('link[rel="canonical"]')).toBeFalsy();
+	});
+});
+
+// ====================
+// Pod Ordering Tests
+// ====================
+
+describe('Pod Ordering', () => {
+	test('renders Pods by order, then creation order', async () => {
+		const component = render(TestOrderedPods, {
+			portalName: 'ordered-portal'
+		});
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		const portal = document.querySelector('[data-testid="portal"]');
+		expect(portal?.textContent?.replace(/\s+/g, '')).toBe('[Gamma][Alpha][Beta]');
+	});
+
+	test('remounted Pod returns to its ordered position', async () => {
+		const component = render(TestOrderedPods, {
+			portalName: 'remount-ordered-portal'
+		});
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		const toggleButton = document.querySelector('[data-testid="toggle-beta"]');
+		(toggleButton as HTMLButtonElement).click();
+		await new Promise(resolve => setTimeout(resolve, 50));
+
+		const portal = document.querySelector('[data-testid="portal"]');
+		expect(portal?.textContent?.replace(/\s+/g, '')).toBe('[Gamma][Alpha]');
+
+		(toggleButton as HTMLButtonElement).click();
+		await new Promise(resolve => setTimeout(resolve, 50));
+
+		expect(portal?.textContent?.replace(/\s+/g, '')).toBe('[Gamma][Alpha][Beta]');
+	});
+
+	test('changing order moves the Pod', async () => {
+		const component = render(TestOrderedPods, {
+			portalName: 'reorder-portal'
+		});
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		const promoteButton = document.querySelector('[data-testid="promote-alpha"]');
+		(promoteButton as HTMLButtonElement).click();
+		await new Promise(resolve => setTimeout(resolve, 50));
+
+		const portal = document.querySelector('[data-testid="portal"]');
+		expect(portal?.textContent?.replace(/\s+/g, '')).toBe('[Alpha][Gamma][Beta]');
+	});
+});
+
+// ====================
+// Bay Controller Tests
+// ====================
+
+describe('Bay Controller', () => {
+	const click = async (testId: string) => {
+		(document.querySelector(`[data-testid="${testId}"]`) as HTMLButtonElement).click();
+		await new Promise(resolve => setTimeout(resolve, 50));
+	};
+	const text = (testId: string) => document.querySelector(`[data-testid="${testId}"]`)?.textContent?.replace(/\s+/g, '');
+
+	test('register renders content without a Pod and returns a disposer', async () => {
+		const component = render(TestBayController, {
+			portalName: 'controller-portal'
+		});
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+		expect(text('portal')).toBe('[Declarative]');
+		expect(text('count')).toBe('1');
+
+		await click('register');
+		expect(text('portal')).toBe('[Imperative][Declarative]');
+		expect(text('count')).toBe('2');
+
+		await click('dispose');
+		expect(text('portal')).toBe('[Declarative]');
+		expect(text('count')).toBe('1');
+	});
+
+	test('clear removes every entry for a name', async () => {
+		const component = render(TestBayController, {
+			portalName: 'controller-clear-portal'
+		});
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+		await click('register');
+		await click('clear');
+
+		expect(text('portal')).toBe('');
+		expect(text('has')).toBe('false');
+		expect(text('names')).toBe('');
+	});
+
+	test('subscribe reports changes', async () => {
+		const component = render(TestBayController, {
+			portalName: 'controller-subscribe-portal'
+		});
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+		expect(text('names')).toBe('controller-subscribe-portal');
+		const before = parseInt(text('notifications') || '0');
+
+		await click('register');
+		expect(parseInt(text('notifications') || '0')).toBe(before + 1);
+	});
+});
+
+// ====================
+// Disabled Pod Tests
+// ====================
+
+describe('Disabled Pods', () => {
+	test('renders content in place while disabled', async () => {
+		const component = render(TestDisabledPod, {
+			portalName: 'disabled-portal',
+			disabled: true
+		});
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		const portal = document.querySelector('[data-testid="portal"]');
+		const inline = document.querySelector('[data-testid="inline"]');
+		expect(inline?.textContent).toContain('Switchable Content');
+		expect(portal?.textContent).not.toContain('Switchable Content');
+	});
+
+	test('switches between inline and teleported reactively', async () => {
+		const component = render(TestDisabledPod, {
+			portalName: 'switch-portal',
+			disabled: false
+		});
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		const portal = document.querySelector('[data-testid="portal"]');
+		const inline = document.querySelector('[data-testid="inline"]');
+		expect(portal?.textContent).toContain('Switchable Content');
+		expect(inline?.textContent).not.toContain('Switchable Content');
+
+		await component.rerender({ disabled: true });
+		await new Promise(resolve => setTimeout(resolve, 50));
+
+		expect(inline?.textContent).toContain('Switchable Content');
+		expect(portal?.textContent).not.toContain('Switchable Content');
+
+		await component.rerender({ disabled: false });
+		await new Promise(resolve => setTimeout(resolve, 50));
+
+		expect(portal?.textContent).toContain('Switchable Content');
+		expect(inline?.textContent).not.toContain('Switchable Content');
+	});
+});
+
+// ====================
+// Shared Portal Name Tests
+// ====================
+
+describe('Portals Sharing a Name', () => {
+	const text = (testId: string) => document.querySelector(`[data-testid="${testId}"]`)?.textContent ?? '';
+
+	test('mirror renders the content in every Portal', async () => {
+		const component = render(TestSharedPortalName, {
+			portalName: 'mirror-portal',
+			duplicates: 'mirror'
+		});
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		expect(text('portal-1')).toContain('Shared Content');
+		expect(text('portal-2')).toContain('Shared Content');
+	});
+
+	test('first renders in the earliest Portal and moves when it unmounts', async () => {
+		const component = render(TestSharedPortalName, {
+			portalName: 'first-portal',
+			duplicates: 'first'
+		});
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		expect(text('portal-1')).toContain('Shared Content');
+		expect(text('portal-2')).not.toContain('Shared Content');
+
+		const toggleButton = document.querySelector('[data-testid="toggle-first"]');
+		(toggleButton as HTMLButtonElement).click();
+		await new Promise(resolve => setTimeout(resolve, 50));
+
+		expect(text('portal-2')).toContain('Shared Content');
+	});
+
+	test('last renders in the most recently mounted Portal', async () => {
+		const component = render(TestSharedPortalName, {
+			portalName: 'last-portal',
+			duplicates: 'last'
+		});
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		expect(text('portal-1')).not.toContain('Shared Content');
+		expect(text('portal-2')).toContain('Shared Content');
+	});
+
+	test('error throws when a second Portal mounts', async () => {
+		expect(() =>
+			render(TestSharedPortalName, {
+				portalName: 'error-portal',
+				duplicates: 'error'
+			})
+		).toThrow(/already mounted/);
+	});
+});
+
+// ====================
+// Nested Bay Tests
+// ====================
+
+describe('Nested Bays', () => {
+	test('child bay keeps its own Portals and falls through to the parent', async () => {
+		const component = render(TestNestedBays);
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		const text = (testId: string) => document.querySelector(`[data-testid="${testId}"]`)?.textContent?.replace(/\s+/g, '');
+		expect(text('child-header')).toBe('[ChildHeader]');
+		expect(text('root-header')).toBe('[RootHeader]');
+		expect(text('root-footer')).toBe('[Footer]');
+	});
+
+	test('a Portal with scope="root" mounts in the outermost bay', async () => {
+		const component = render(TestNestedBays);
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		// The Pod is declared in the outer bay and reaches the Portal declared in the inner one
+		expect(document.querySelector('[data-testid="child-sidebar"]')?.textContent?.trim()).toBe('[Sidebar]');
+	});
+});
+
+// ====================
+// Shared Bay Tests
+// ====================
+
+describe('Shared Bays', () => {
+	test('separately mounted roots share a bay by id', async () => {
+		const portalRoot = render(TestSharedBayPortal, { bayId: 'islands', portalName: 'island-portal' });
+		const podRoot = render(TestSharedBayPod, {
+			bayId: 'islands',
+			portalName: 'island-portal',
+			content: 'Island Content'
+		});
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		const portal = document.querySelector('[data-testid="portal"]');
+		expect(portal?.textContent).toContain('Island Content');
+		expect(getBayState({ id: 'islands' }).count('island-portal')).toBe(1);
+
+		podRoot.unmount();
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		expect(portal?.textContent).not.toContain('Island Content');
+		portalRoot.unmount();
+	});
+
+	test('a shared bay is removed when its last root unmounts', async () => {
+		const first = render(TestSharedBayPortal, { bayId: 'teardown', portalName: 'teardown-portal' });
+		const second = render(TestSharedBayPod, {
+			bayId: 'teardown',
+			portalName: 'teardown-portal',
+			content: 'Teardown Content'
+		});
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		const bay = getBayState({ id: 'teardown' });
+
+		first.unmount();
+		expect(getBayState({ id: 'teardown' })).toBe(bay);
+
+		second.unmount();
+		expect(() => getBayState({ id: 'teardown' })).toThrow('Bay "teardown" not found');
+	});
+});
+
+// ====================
+// DOM Target Tests
+// ====================
+
+describe('DOM Targets', () => {
+	test('mounts into document.body by default', async () => {
+		const component = render(TestDomTarget);
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		const button = document.querySelector('[data-testid="teleported"]');
+		expect(button?.parentElement).toBe(document.body);
+		expect(document.querySelector('[data-testid="clipped"]')?.textContent?.trim()).toBe('');
+	});
+
+	test('mounts into a selector target and stays reactive', async () => {
+		const component = render(TestDomTarget, {
+			target: '#dom-target'
+		});
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		const button = document.querySelector('[data-testid="teleported"]') as HTMLButtonElement;
+		expect(button?.parentElement?.id).toBe('dom-target');
+
+		button.click();
+		await new Promise(resolve => setTimeout(resolve, 50));
+		expect(button.textContent).toContain('Clicked 1');
+	});
+
+	test('removes mounted content on unmount', async () => {
+		const component = render(TestDomTarget, {
+			target: '#dom-target'
+		});
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+		expect(document.querySelector('[data-testid="teleported"]')).toBeTruthy();
+
+		await component.rerender({ showPod: false });
+		await new Promise(resolve => setTimeout(resolve, 50));
+
+		expect(document.querySelector('[data-testid="teleported"]')).toBeFalsy();
+	});
+
+	test('warns when the selector matches no element', async () => {
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+		const component = render(TestDomTarget, {
+			target: '#missing-target'
+		});
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		const messages = warn.mock.calls.map(([message]) => String(message));
+		warn.mockRestore();
+
+		expect(document.querySelector('[data-testid="teleported"]')).toBeFalsy();
+		expect(messages.find(message => message.includes('"#missing-target"'))).toContain('TestDomTarget.svelte');
+	});
+});
+
+// ====================
+// Document Portal Tests
+// ====================
+
+describe('Document Portals', () => {
+	test('renders Pod content into another document', async () => {
+		const component = render(TestDocumentPortal, { portalName: 'framed-portal' });
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		const frame = document.querySelector('[data-testid="frame"]') as HTMLIFrameElement;
+		const button = frame.contentDocument?.querySelector('[data-testid="framed-button"]') as HTMLButtonElement;
+		expect(button).toBeTruthy();
+		expect(document.querySelector('[data-testid="framed-button"]')).toBeFalsy();
+
+		// Events inside the other document still reach the Pod's handlers
+		button.click();
+		await new Promise(resolve => setTimeout(resolve, 100));
+		expect(button.textContent).toContain('Clicked 1');
+	});
+
+	test('copies styles into the other document and keeps them in sync', async () => {
+		const style = document.createElement('style');
+		style.textContent = '.framed { color: red; }';
+		document.head.appendChild(style);
+
+		const component = render(TestDocumentPortal, { portalName: 'styled-portal', styles: true });
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		const frame = document.querySelector('[data-testid="frame"]') as HTMLIFrameElement;
+		const frameHead = frame.contentDocument!.head;
+		expect(frameHead.innerHTML).toContain('.framed { color: red; }');
+
+		style.textContent = '.framed { color: blue; }';
+		await new Promise(resolve => setTimeout(resolve, 100));
+		expect(frameHead.innerHTML).toContain('.framed { color: blue; }');
+
+		style.remove();
+		await new Promise(resolve => setTimeout(resolve, 100));
+		expect(frameHead.innerHTML).not.toContain('.framed');
+	});
+});
+
 // ====================
 // Integration Tests
 // ====================
@@ -140,6 +1009,354 @@ describe('Portal-Pod Integration', () => {
 	});
 });
 
+// ====================
+// Development Diagnostics Tests
+// ====================
+
+describe('Development Diagnostics', () => {
+	test('warns about Pods without a Portal and Portals without Pods', async () => {
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+		const component = render(TestDiagnostics, {
+			portalName: 'diagnosed-portal',
+			podTarget: 'diagnosed-portl'
+		});
+
+		await new Promise(resolve => setTimeout(resolve, 2500));
+
+		const messages = warn.mock.calls.map(([message]) => String(message));
+		warn.mockRestore();
+
+		const orphan = messages.find(message => message.includes('"diagnosed-portl"'));
+		expect(orphan).toContain('TestDiagnostics.svelte');
+		expect(messages.some(message => message.includes('Portal "diagnosed-portal"'))).toBe(true);
+	});
+
+	test('stays quiet when the Pod finds its Portal', async () => {
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+		const component = render(TestDiagnostics, {
+			portalName: 'matched-portal',
+			podTarget: 'matched-portal'
+		});
+
+		await new Promise(resolve => setTimeout(resolve, 2500));
+
+		const messages = warn.mock.calls.map(([message]) => String(message));
+		warn.mockRestore();
+
+		expect(messages.filter(message => message.includes('[svelte-bay]'))).toEqual([]);
+	});
+
+	test('stays quiet about optional Portals without Pods', async () => {
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+		const component = render(TestDiagnostics, {
+			portalName: 'optional-portal',
+			podTarget: 'optional-elsewhere',
+			optional: true
+		});
+
+		await new Promise(resolve => setTimeout(resolve, 2500));
+
+		const messages = warn.mock.calls.map(([message]) => String(message));
+		warn.mockRestore();
+
+		expect(messages.some(message => message.includes('Portal "optional-portal"'))).toBe(false);
+		expect(messages.some(message => message.includes('"optional-elsewhere"'))).toBe(true);
+	});
+});
+
+// ====================
+// Portal Status Tests
+// ====================
+
+describe('Portal Status', () => {
+	test('usePortal reports count, isEmpty and isMounted reactively', async () => {
+		const component = render(TestPortalStatus, { portalName: 'status-portal' });
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		const status = document.querySelector('[data-testid="status"]');
+		expect(status?.textContent).toContain('0 empty');
+		expect(status?.textContent).not.toContain('unmounted');
+
+		const toggleButton = document.querySelector('[data-testid="toggle-button"]') as HTMLButtonElement;
+		toggleButton.click();
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		expect(status?.textContent).toContain('1 filled');
+
+		toggleButton.click();
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		expect(status?.textContent).toContain('0 empty');
+	});
+
+	test('Portal binds its count and reports changes', async () => {
+		const onchange = vi.fn();
+		const component = render(TestPortalStatus, { portalName: 'bound-portal', onchange });
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		const bound = document.querySelector('[data-testid="bound-count"]');
+		expect(bound?.textContent).toBe('0');
+		expect(onchange).not.toHaveBeenCalled();
+
+		const toggleButton = document.querySelector('[data-testid="toggle-button"]') as HTMLButtonElement;
+		toggleButton.click();
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		expect(bound?.textContent).toBe('1');
+		expect(onchange).toHaveBeenLastCalledWith(1);
+
+		toggleButton.click();
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		expect(bound?.textContent).toBe('0');
+		expect(onchange).toHaveBeenLastCalledWith(0);
+		expect(onchange).toHaveBeenCalledTimes(2);
+	});
+});
+
+// ====================
+// Bay Inspector Tests
+// ====================
+
+describe('Bay Inspector', () => {
+	test('lists portal names, Pod counts, mounted Portals and Pod sources', async () => {
+		const component = render(TestInspector, { portalName: 'inspected-portal' });
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		const inspected = document.querySelector('[data-portal-name="inspected-portal"]');
+		expect(inspected?.textContent).toContain('1 Pod');
+		expect(inspected?.textContent).toContain('1 Portal mounted');
+		expect(inspected?.textContent).toContain('TestInspector.svelte');
+
+		const waiting = document.querySelector('[data-portal-name="unmounted-portal"]');
+		expect(waiting?.textContent).toContain('no Portal mounted');
+	});
+
+	test('outlines the rendered content of a hovered Pod', async () => {
+		const component = render(TestInspector, { portalName: 'highlighted-portal' });
+
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		// Portals mark their entries while an inspector is mounted
+		expect(document.querySelector('[data-testid="portal"] template[data-bay-entry]')).toBeTruthy();
+
+		const pod = document.querySelector('[data-portal-name="highlighted-portal"] button');
+		pod?.dispatchEvent(new MouseEvent('mouseenter'));
+		await new Promise(resolve => setTimeout(resolve, 100));
+		expect(document.querySelectorAll('.bay-inspector-outline').length).toBe(1);
+
+		pod?.dispatchEvent(new MouseEvent('mouseleave'));
+		await new Promise(resolve => setTimeout(resolve, 100));
+		expect(document.querySelectorAll('.bay-inspector-outline').length).toBe(0);
+	});
+});
+
+// ====================
+// Toast Tests
+// ====================
+
+describe('Toasts', () => {
+	const renderToaster = async (options: ToasterOptions = {}) => {
+		let toaster!: Toaster;
+		render(TestToaster, { options, ontoaster: (created) => (toaster = created) });
+		await new Promise(resolve => setTimeout(resolve, 100));
+		return toaster;
+	};
+
+	const toastTexts = () =>
+		[...document.querySelectorAll('[data-testid="toasts"] .toast span')].map((toast) => toast.textContent);
+
+	test('shows messages in a live region and dismisses them after their duration', async () => {
+		const toaster = await renderToaster({ duration: 300 });
+
+		toaster.toast('Copied <b>link</b>');
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		const region = document.querySelector('[data-testid="toasts"] section');
+		expect(region?.getAttribute('aria-live')).toBe('polite');
+		// Messages are text, not markup
+		expect(toastTexts()).toEqual(['Copied <b>link</b>']);
+
+		await new Promise(resolve => setTimeout(resolve, 300));
+		expect(toastTexts()).toEqual([]);
+	});
+
+	test('queues toasts beyond max and shows them as others are dismissed', async () => {
+		const toaster = await renderToaster({ max: 2, duration: 0 });
+
+		const first = toaster.toast('One');
+		toaster.toast('Two');
+		toaster.toast('Three');
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		expect(toastTexts()).toEqual(['One', 'Two']);
+		expect(toaster.queued).toBe(1);
+
+		toaster.dismiss(first);
+		await new Promise(resolve => setTimeout(resolve, 100));
+		expect(toastTexts()).toEqual(['Two', 'Three']);
+		expect(toaster.queued).toBe(0);
+	});
+
+	test('a toast with the same id replaces the shown one in place', async () => {
+		const toaster = await renderToaster({ duration: 0 });
+
+		toaster.toast('Saving…', { id: 'save' });
+		toaster.toast('Other');
+		toaster.toast('Saved', { id: 'save', type: 'success' });
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		expect(toastTexts()).toEqual(['Saved', 'Other']);
+		expect(toaster.get('save')?.type).toBe('success');
+	});
+
+	test('pauses the timer while hovered or focused', async () => {
+		const toaster = await renderToaster({ duration: 300 });
+
+		toaster.toast('Hover me');
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		const toast = document.querySelector('[data-testid="toasts"] .toast')!;
+		toast.dispatchEvent(new MouseEvent('mouseenter'));
+		await new Promise(resolve => setTimeout(resolve, 400));
+		expect(toastTexts()).toEqual(['Hover me']);
+		expect(toast.hasAttribute('data-paused')).toBe(true);
+
+		// Focus inside keeps it paused after the pointer leaves
+		toast.querySelector('button')?.focus();
+		toast.dispatchEvent(new MouseEvent('mouseleave'));
+		await new Promise(resolve => setTimeout(resolve, 400));
+		expect(toastTexts()).toEqual(['Hover me']);
+
+		(document.activeElement as HTMLElement | null)?.blur();
+		await new Promise(resolve => setTimeout(resolve, 400));
+		expect(toastTexts()).toEqual([]);
+	});
+
+	test('renders snippets and announces errors as alerts', async () => {
+		const toaster = await renderToaster();
+
+		(document.querySelector('[data-testid="show-custom"]') as HTMLButtonElement).click();
+		toaster.toast('Upload failed', { type: 'error', duration: 0 });
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		expect(document.querySelector('[data-testid="custom-toast"]')?.textContent).toBe('Saved');
+		const toasts = document.querySelectorAll('[data-testid="toasts"] .toast');
+		expect(toasts[0].getAttribute('data-toast-type')).toBe('success');
+		expect(toasts[1].getAttribute('role')).toBe('alert');
+
+		(toasts[0].querySelector('button[aria-label="Dismiss"]') as HTMLButtonElement).click();
+		await new Promise(resolve => setTimeout(resolve, 100));
+		expect(document.querySelector('[data-testid="custom-toast"]')).toBeNull();
+		expect(toaster.toasts.map((toast) => toast.message)).toEqual(['Upload failed']);
+	});
+});
+
+// ====================
+// Modal Tests
+// ====================
+
+describe('Modals', () => {
+	const click = (testId: string) =>
+		(document.querySelector(`[data-testid="${testId}"]`) as HTMLElement).click();
+
+	const pressKey = (key: string, options: KeyboardEventInit = {}) =>
+		(document.activeElement ?? document.body).dispatchEvent(
+			new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true, ...options })
+		);
+
+	const dialogs = () => [...document.querySelectorAll('[role="dialog"]')].map((dialog) => dialog.getAttribute('aria-label'));
+
+	test('opens a dialog with focus inside and the page inert and locked', async () => {
+		const component = render(TestModals);
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		(document.querySelector('[data-testid="open-outer"]') as HTMLElement).focus();
+		click('open-outer');
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		const dialog = document.querySelector('[role="dialog"]');
+		expect(dialog?.getAttribute('aria-modal')).toBe('true');
+		expect(document.activeElement).toBe(document.querySelector('[data-testid="open-inner"]'));
+		expect(document.querySelector('[data-testid="page"]')?.closest('[inert]')).toBeTruthy();
+		expect(document.body.style.overflow).toBe('hidden');
+
+		click('close-outer');
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		expect(dialogs()).toEqual([]);
+		expect(document.querySelector('[data-testid="page"]')?.closest('[inert]')).toBeNull();
+		expect(document.body.style.overflow).toBe('');
+		expect(document.activeElement).toBe(document.querySelector('[data-testid="open-outer"]'));
+	});
+
+	test('Escape closes only the top modal and focus returns to its opener', async () => {
+		const component = render(TestModals);
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		click('open-outer');
+		await new Promise(resolve => setTimeout(resolve, 100));
+		(document.querySelector('[data-testid="open-inner"]') as HTMLElement).focus();
+		click('open-inner');
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		// The nested modal registered last, so it is on top and the outer one is inert
+		expect(dialogs()).toEqual(['Outer', 'Inner']);
+		const layers = document.querySelectorAll<HTMLElement>('.modal-layer');
+		expect(layers[0].inert).toBe(true);
+		expect(layers[1].inert).toBe(false);
+		expect(document.activeElement).toBe(document.querySelector('[data-testid="inner-input"]'));
+
+		pressKey('Escape');
+		await new Promise(resolve => setTimeout(resolve, 100));
+		expect(dialogs()).toEqual(['Outer']);
+		expect(document.activeElement).toBe(document.querySelector('[data-testid="open-inner"]'));
+
+		pressKey('Escape');
+		await new Promise(resolve => setTimeout(resolve, 100));
+		expect(dialogs()).toEqual([]);
+	});
+
+	test('a backdrop click closes only the top modal', async () => {
+		const component = render(TestModals);
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		click('open-outer');
+		await new Promise(resolve => setTimeout(resolve, 100));
+		click('open-inner');
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		const backdrops = document.querySelectorAll<HTMLElement>('.modal-backdrop');
+		backdrops[backdrops.length - 1].click();
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		expect(dialogs()).toEqual(['Outer']);
+	});
+
+	test('Tab cycles within the top dialog', async () => {
+		const component = render(TestModals);
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		click('open-outer');
+		await new Promise(resolve => setTimeout(resolve, 100));
+		click('open-inner');
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		(document.querySelector('[data-testid="inner-last"]') as HTMLElement).focus();
+		pressKey('Tab');
+		expect(document.activeElement).toBe(document.querySelector('[data-testid="inner-input"]'));
+
+		pressKey('Tab', { shiftKey: true });
+		expect(document.activeElement).toBe(document.querySelector('[data-testid="inner-last"]'));
+	});
+});
+
 // ====================
 // Edge Cases
 // ====================
@@ -6,6 +6,7 @@ export default defineConfig({
 	plugins: [sveltekit()],
 	test: {
 		include: ['src/**/*.{test,spec}.{js,ts}', 'tests/**/*.{test,spec}.{js,ts}'],
+		globalSetup: ['tests/server-render.ts'],
 		browser: {
 			enabled: true,
 			provider: playwright(),